@@ -24,6 +24,7 @@ video.addEventListener("seeked", logEvent);
 video.addEventListener("progress", logEvent);
 video.addEventListener("resize", logEvent);
 video.addEventListener("ended", logEvent);
+video.addEventListener("error", logEvent);
 
 const streamDuration = 634.56;
 
@@ -56,8 +57,7 @@ async function appendSegments(
 ) {
   for (const segmentURL of segmentURLs) {
     const segmentData = await (await fetch(segmentURL)).arrayBuffer();
-    sourceBuffer.appendBuffer(segmentData);
-    await waitForEvent(sourceBuffer, "updateend");
+    await sourceBuffer.appendBufferAsync(segmentData);
   }
 }
 
@@ -165,15 +165,15 @@ async function trackBufferLoop(
       new TimeRanges([[retainStart, retainEnd]])
     );
     for (let i = 0; i < oldBuffered.length; i++) {
-      sourceBuffer.remove(oldBuffered.start(i), oldBuffered.end(i));
-      await waitForEvent(sourceBuffer, "updateend");
+      await sourceBuffer.removeAsync(oldBuffered.start(i), oldBuffered.end(i), {
+        signal
+      });
     }
     // Append next segment
     const segmentData = await (
       await fetch(nextSegment.url, { signal })
     ).arrayBuffer();
-    sourceBuffer.appendBuffer(segmentData);
-    await waitForEvent(sourceBuffer, "updateend");
+    await sourceBuffer.appendBufferAsync(segmentData, { signal });
     // Check if we're done buffering
     if (forward) {
       if (nextSegment.isLast) {
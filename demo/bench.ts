@@ -0,0 +1,99 @@
+import { InputBuffer } from "../src/input-buffer";
+import { Mp4Parser } from "../src/mp4-parser";
+
+// Appends a long fragmented MP4 file to the parser in network-sized chunks,
+// the same way the segment parser loop of a source buffer does,
+// and reports how fast it is parsed into coded frames.
+const initSegmentURL =
+  "https://dash.akamaized.net/akamai/bbb_30fps/bbb_30fps_1920x1080_8000k/bbb_30fps_1920x1080_8000k_0.m4v";
+const mediaSegmentURL =
+  "https://dash.akamaized.net/akamai/bbb_30fps/bbb_30fps_1920x1080_8000k/bbb_30fps_1920x1080_8000k_%INDEX%.m4v";
+const segmentDuration = 120 / 30;
+const segmentCount = 30;
+const chunkSize = 64 * 1024;
+const runCount = 5;
+
+const output = document.querySelector<HTMLPreElement>("#output")!;
+const runButton = document.querySelector<HTMLButtonElement>("#run")!;
+
+function log(message: string): void {
+  output.textContent += `${message}\n`;
+}
+
+async function fetchFile(): Promise<Uint8Array> {
+  const urls = [initSegmentURL];
+  for (let i = 1; i <= segmentCount; i++) {
+    urls.push(mediaSegmentURL.replace(/%INDEX%/, `${i}`));
+  }
+  const segments = await Promise.all(
+    urls.map(
+      async (url) => new Uint8Array(await (await fetch(url)).arrayBuffer())
+    )
+  );
+  const file = new Uint8Array(
+    segments.reduce((sum, segment) => sum + segment.byteLength, 0)
+  );
+  let offset = 0;
+  for (const segment of segments) {
+    file.set(segment, offset);
+    offset += segment.byteLength;
+  }
+  return file;
+}
+
+function parseFile(file: Uint8Array): number {
+  const parser = new Mp4Parser();
+  const input = new InputBuffer();
+  let position = 0;
+  let frameCount = 0;
+  while (true) {
+    const parseResult = parser.parse(input);
+    if (parseResult.type === "needMoreData") {
+      if (position >= file.byteLength) {
+        break;
+      }
+      input.append(file.subarray(position, position + chunkSize));
+      position += chunkSize;
+      continue;
+    } else if (parseResult.type === "error") {
+      throw new Error(`Parse error at byte ${position - input.byteLength}`);
+    }
+    input.consume(parseResult.byteLength);
+    if (parseResult.type === "codedFrames") {
+      frameCount += parseResult.frames.length;
+    }
+  }
+  return frameCount;
+}
+
+async function run(): Promise<void> {
+  runButton.disabled = true;
+  output.textContent = "";
+  try {
+    log(`Fetching ${segmentCount} segments...`);
+    const file = await fetchFile();
+    const megabytes = file.byteLength / (1024 * 1024);
+    const mediaDuration = segmentCount * segmentDuration;
+    log(
+      `Parsing ${megabytes.toFixed(1)} MiB (${mediaDuration} s of media) ` +
+        `in chunks of ${chunkSize / 1024} KiB, ${runCount} times`
+    );
+    for (let i = 1; i <= runCount; i++) {
+      const start = performance.now();
+      const frameCount = parseFile(file);
+      const seconds = (performance.now() - start) / 1000;
+      log(
+        `Run ${i}: ${(seconds * 1000).toFixed(1)} ms, ` +
+          `${(megabytes / seconds).toFixed(1)} MiB/s, ` +
+          `${Math.round(frameCount / seconds)} frames/s, ` +
+          `${Math.round(mediaDuration / seconds)}x realtime`
+      );
+    }
+  } catch (e) {
+    log(`Failed: ${e}`);
+  } finally {
+    runButton.disabled = false;
+  }
+}
+
+runButton.addEventListener("click", run);
@@ -0,0 +1,20 @@
+import { BabyMediaSourceHandle, BabyVideoElement } from "../src/index";
+
+// Plays a media source that is constructed in a dedicated worker.
+// Only the port of its handle survives the transfer to the main thread,
+// so the handle is constructed again around that port.
+const video = document.querySelector<BabyVideoElement>("baby-video")!;
+const playButton = document.querySelector<HTMLButtonElement>("#play")!;
+
+const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+  type: "module"
+});
+worker.addEventListener(
+  "message",
+  (event: MessageEvent<{ port: MessagePort }>) => {
+    video.srcObject = new BabyMediaSourceHandle(event.data.port);
+  },
+  { once: true }
+);
+
+playButton.addEventListener("click", () => video.play());
@@ -0,0 +1,29 @@
+import { BabyMediaSource } from "../src/worker";
+import { waitForEvent } from "../src/util";
+
+// Runs in a dedicated worker: constructs a media source, transfers its handle
+// to the main thread and appends the first few segments of a video stream.
+const initSegmentURL =
+  "https://dash.akamaized.net/akamai/bbb_30fps/bbb_30fps_1920x1080_8000k/bbb_30fps_1920x1080_8000k_0.m4v";
+const mediaSegmentURL =
+  "https://dash.akamaized.net/akamai/bbb_30fps/bbb_30fps_1920x1080_8000k/bbb_30fps_1920x1080_8000k_%INDEX%.m4v";
+const segmentCount = 5;
+
+const mediaSource = new BabyMediaSource();
+const handle = mediaSource.handle;
+postMessage({ port: handle.port }, { transfer: [handle.port] });
+if (mediaSource.readyState !== "open") {
+  await waitForEvent(mediaSource, "sourceopen");
+}
+const sourceBuffer = mediaSource.addSourceBuffer(
+  'video/mp4; codecs="avc1.640028"'
+);
+const urls = [initSegmentURL];
+for (let i = 1; i <= segmentCount; i++) {
+  urls.push(mediaSegmentURL.replace(/%INDEX%/, `${i}`));
+}
+for (const url of urls) {
+  const segment = await (await fetch(url)).arrayBuffer();
+  await sourceBuffer.appendBufferAsync(segment);
+}
+mediaSource.endOfStream();
@@ -0,0 +1,78 @@
+// https://wiki.multimedia.cx/index.php/ADTS
+export const ADTS_HEADER_LENGTH = 7;
+
+// Each raw data block contains this many samples (per channel).
+export const AAC_SAMPLES_PER_BLOCK = 1024;
+
+const SAMPLING_FREQUENCIES: readonly number[] = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+  8000, 7350
+];
+
+export interface AdtsHeader {
+  // The length of the header, including the CRC if present.
+  headerLength: number;
+  // The length of the whole frame, including the header.
+  frameLength: number;
+  // The MPEG-4 audio object type, e.g. 2 for AAC-LC.
+  objectType: number;
+  samplingFrequencyIndex: number;
+  sampleRate: number;
+  channelConfiguration: number;
+  // The number of raw data blocks in this frame.
+  blockCount: number;
+}
+
+// Reads the ADTS header at the start of data.
+// Returns undefined if data does not start with a valid ADTS header.
+export function readAdtsHeader(data: Uint8Array): AdtsHeader | undefined {
+  if (data.byteLength < ADTS_HEADER_LENGTH) {
+    return undefined;
+  }
+  // The header starts with a 12-bit syncword, followed by the MPEG version
+  // and a layer which must always be 0.
+  if (data[0] !== 0xff || (data[1] & 0xf6) !== 0xf0) {
+    return undefined;
+  }
+  const protectionAbsent = data[1] & 0x01;
+  const objectType = (data[2] >> 6) + 1;
+  const samplingFrequencyIndex = (data[2] >> 2) & 0x0f;
+  const sampleRate = SAMPLING_FREQUENCIES[samplingFrequencyIndex];
+  if (sampleRate === undefined) {
+    return undefined;
+  }
+  const channelConfiguration = ((data[2] & 0x01) << 2) | (data[3] >> 6);
+  const frameLength =
+    ((data[3] & 0x03) << 11) | (data[4] << 3) | (data[5] >> 5);
+  const headerLength = protectionAbsent ? 7 : 9;
+  if (frameLength < headerLength) {
+    return undefined;
+  }
+  const blockCount = (data[6] & 0x03) + 1;
+  return {
+    headerLength,
+    frameLength,
+    objectType,
+    samplingFrequencyIndex,
+    sampleRate,
+    channelConfiguration,
+    blockCount
+  };
+}
+
+// Builds an AudioDecoderConfig for the AAC stream described by an ADTS header.
+export function getAdtsDecoderConfig(header: AdtsHeader): AudioDecoderConfig {
+  // https://www.w3.org/TR/webcodecs-aac-codec-registration/#audiodecoderconfig-description
+  // The description is the AudioSpecificConfig from ISO/IEC 14496-3.
+  const audioSpecificConfig = new Uint8Array([
+    (header.objectType << 3) | (header.samplingFrequencyIndex >> 1),
+    ((header.samplingFrequencyIndex & 0x01) << 7) |
+      (header.channelConfiguration << 3)
+  ]);
+  return {
+    codec: `mp4a.40.${header.objectType}`,
+    sampleRate: header.sampleRate,
+    numberOfChannels: header.channelConfiguration,
+    description: audioSpecificConfig
+  };
+}
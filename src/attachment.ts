@@ -0,0 +1,53 @@
+import { BabyMediaError } from "./media-error";
+import { EventMessage } from "./byte-stream-format";
+import { TimeRanges } from "./time-ranges";
+import { BabyMediaTrack } from "./track-list";
+import {
+  AudioTrackBuffer,
+  TrackBuffer,
+  VideoTrackBuffer
+} from "./track-buffer";
+
+export enum MediaReadyState {
+  HAVE_NOTHING,
+  HAVE_METADATA,
+  HAVE_CURRENT_DATA,
+  HAVE_FUTURE_DATA,
+  HAVE_ENOUGH_DATA
+}
+
+// The media element, as seen by the MediaSource attached to it.
+// When the MediaSource lives in a worker, this forwards everything to the main thread.
+export interface MediaElementAttachment {
+  readonly currentTime: number;
+  readonly playbackRate: number;
+  readonly readyState: MediaReadyState;
+  readonly error: BabyMediaError | null;
+
+  updateDuration(newDuration: number): void;
+  updateReadyState(newReadyState: MediaReadyState): void;
+  notifyProgress(): void;
+  notifyEndOfStream(): void;
+  notifyActiveTracksChanged(): void;
+  notifyTrackBufferAdded(trackBuffer: TrackBuffer): void;
+  addTrack(track: BabyMediaTrack): void;
+  removeTrack(track: BabyMediaTrack): void;
+  // Adds in-band event messages, with their presentation times on the presentation timeline.
+  addEventMessages(events: EventMessage[]): void;
+  // Runs the "Initialization Data Encountered" algorithm of the Encrypted Media Extensions.
+  notifyEncrypted(initDataType: string, initData: Uint8Array | null): void;
+  mediaSourceFailure(message: string): void;
+  mediaDataError(error: BabyMediaError): void;
+}
+
+// The MediaSource, as seen by the media element it is attached to.
+// When the MediaSource lives in a worker, this mirrors its state on the main thread.
+export interface MediaSourceAttachment {
+  readonly buffered: TimeRanges;
+  readonly seekable: TimeRanges;
+
+  getActiveVideoTrackBuffer(): VideoTrackBuffer | undefined;
+  getActiveAudioTrackBuffer(): AudioTrackBuffer | undefined;
+  checkBuffer(): void;
+  detach(): void;
+}
@@ -0,0 +1,202 @@
+import {
+  ByteStreamParser,
+  CodedFrame,
+  ParseResult
+} from "./byte-stream-format";
+import {
+  AAC_SAMPLES_PER_BLOCK,
+  ADTS_HEADER_LENGTH,
+  getAdtsDecoderConfig,
+  readAdtsHeader
+} from "./adts";
+import { MPEG_AUDIO_HEADER_LENGTH, readMpegAudioHeader } from "./mpeg-audio";
+import { InputBuffer } from "./input-buffer";
+
+// The ID of the only track in a raw audio byte stream.
+const TRACK_ID = 1;
+
+const ID3V2_HEADER_LENGTH = 10;
+const ID3V1_TAG_LENGTH = 128;
+
+export interface AudioFrameHeader {
+  // The length of the whole frame, including the header.
+  frameLength: number;
+  // The offset of the data that is passed to the decoder.
+  payloadOffset: number;
+  // The duration (in seconds) of the frame.
+  duration: number;
+  codecConfig: AudioDecoderConfig;
+}
+
+// A byte stream of audio frames without a container, and thus without timestamps.
+// https://w3c.github.io/mse-byte-stream-format-mpeg-audio/
+export abstract class AudioFrameParser implements ByteStreamParser {
+  readonly generateTimestamps: boolean = true;
+  #codecConfig: AudioDecoderConfig | undefined = undefined;
+  #inMediaSegment: boolean = false;
+
+  // The minimum number of bytes needed to read a frame header.
+  protected abstract readonly headerLength: number;
+
+  // Returns undefined if data does not start with a valid frame header.
+  protected abstract readFrameHeader(
+    data: Uint8Array
+  ): AudioFrameHeader | undefined;
+
+  parse(input: InputBuffer): ParseResult {
+    // ID3 tags may appear anywhere between frames.
+    const id3Length = getId3TagLength(input.peek(ID3V2_HEADER_LENGTH));
+    if (id3Length !== undefined) {
+      return input.byteLength < id3Length
+        ? { type: "needMoreData" }
+        : { type: "skip", byteLength: id3Length };
+    }
+    if (input.byteLength < this.headerLength) {
+      return { type: "needMoreData" };
+    }
+    const header = this.readFrameHeader(input.peek(this.headerLength));
+    if (header === undefined) {
+      return { type: "error" };
+    }
+    // The initialization segment is synthesized from the first frame header,
+    // and again whenever the codec configuration changes.
+    if (!isSameConfig(header.codecConfig, this.#codecConfig)) {
+      if (this.#inMediaSegment) {
+        this.#inMediaSegment = false;
+        return { type: "mediaSegmentEnd", byteLength: 0 };
+      }
+      this.#codecConfig = header.codecConfig;
+      return {
+        type: "initializationSegment",
+        byteLength: 0,
+        segment: {
+          duration: NaN,
+          audioTracks: [
+            {
+              type: "audio",
+              id: TRACK_ID,
+              kind: "",
+              label: "",
+              language: "",
+              codecConfig: header.codecConfig,
+              primingEnd: 0
+            }
+          ],
+          videoTracks: []
+        }
+      };
+    }
+    if (!this.#inMediaSegment) {
+      this.#inMediaSegment = true;
+      return { type: "mediaSegmentStart", byteLength: 0 };
+    }
+    // Only peek at a single complete frame, so chunks are merged at most once.
+    if (input.byteLength < header.frameLength) {
+      return { type: "needMoreData" };
+    }
+    const data = input.peek(header.frameLength);
+    const frame: CodedFrame = {
+      trackId: TRACK_ID,
+      data: data.slice(header.payloadOffset),
+      is_sync: true,
+      // The byte stream has no timestamps, they are generated by the source buffer.
+      presentationTimestamp: 0,
+      decodeTimestamp: 0,
+      duration: header.duration
+    };
+    return {
+      type: "codedFrames",
+      byteLength: header.frameLength,
+      frames: [frame]
+    };
+  }
+
+  flush(): CodedFrame[] {
+    // Every complete frame is emitted right away.
+    return [];
+  }
+
+  reset(): void {
+    this.#inMediaSegment = false;
+  }
+}
+
+// https://w3c.github.io/mse-byte-stream-format-mpeg-audio/
+export class MpegAudioParser extends AudioFrameParser {
+  protected readonly headerLength: number = MPEG_AUDIO_HEADER_LENGTH;
+
+  protected readFrameHeader(data: Uint8Array): AudioFrameHeader | undefined {
+    const header = readMpegAudioHeader(data);
+    if (header === undefined) {
+      return undefined;
+    }
+    // https://www.w3.org/TR/webcodecs-mp3-codec-registration/#audiodecoderconfig-description
+    // The frames are passed to the decoder including their header.
+    return {
+      frameLength: header.frameLength,
+      payloadOffset: 0,
+      duration: header.sampleCount / header.sampleRate,
+      codecConfig: {
+        codec: header.codec,
+        sampleRate: header.sampleRate,
+        numberOfChannels: header.numberOfChannels
+      }
+    };
+  }
+}
+
+// https://w3c.github.io/mse-byte-stream-format-mpeg-audio/
+export class AdtsParser extends AudioFrameParser {
+  protected readonly headerLength: number = ADTS_HEADER_LENGTH;
+
+  protected readFrameHeader(data: Uint8Array): AudioFrameHeader | undefined {
+    const header = readAdtsHeader(data);
+    if (header === undefined) {
+      return undefined;
+    }
+    // The ADTS header is removed, since the decoder gets an AudioSpecificConfig instead.
+    return {
+      frameLength: header.frameLength,
+      payloadOffset: header.headerLength,
+      duration: (header.blockCount * AAC_SAMPLES_PER_BLOCK) / header.sampleRate,
+      codecConfig: getAdtsDecoderConfig(header)
+    };
+  }
+}
+
+function getId3TagLength(data: Uint8Array): number | undefined {
+  // https://id3.org/id3v2.4.0-structure
+  if (data.byteLength < 3) {
+    return undefined;
+  }
+  const tag = String.fromCharCode(data[0], data[1], data[2]);
+  if (tag === "TAG") {
+    // An ID3v1 tag has a fixed size.
+    return ID3V1_TAG_LENGTH;
+  }
+  if (tag !== "ID3") {
+    return undefined;
+  }
+  if (data.byteLength < ID3V2_HEADER_LENGTH) {
+    return ID3V2_HEADER_LENGTH;
+  }
+  // The size is a 28-bit "syncsafe" integer, excluding the header and footer.
+  const size =
+    ((data[6] & 0x7f) << 21) |
+    ((data[7] & 0x7f) << 14) |
+    ((data[8] & 0x7f) << 7) |
+    (data[9] & 0x7f);
+  const hasFooter = (data[5] & 0x10) !== 0;
+  return ID3V2_HEADER_LENGTH + size + (hasFooter ? ID3V2_HEADER_LENGTH : 0);
+}
+
+function isSameConfig(
+  config: AudioDecoderConfig,
+  other: AudioDecoderConfig | undefined
+): boolean {
+  return (
+    config.codec === other?.codec &&
+    config.sampleRate === other.sampleRate &&
+    config.numberOfChannels === other.numberOfChannels
+  );
+}
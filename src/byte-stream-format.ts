@@ -0,0 +1,151 @@
+import { CodedFrameData } from "./track-buffer";
+import { AdtsParser, MpegAudioParser } from "./audio-frame-parser";
+import { Mp2tParser } from "./mp2t-parser";
+import { Mp4Parser } from "./mp4-parser";
+import { WebmParser } from "./webm-parser";
+import { parseMimeType } from "./mime-type";
+import { SegmentIndex } from "./segment-index";
+import { InputBuffer } from "./input-buffer";
+
+export interface AudioTrackDescription {
+  type: "audio";
+  id: number;
+  kind: string;
+  label: string;
+  language: string;
+  codecConfig: AudioDecoderConfig;
+  // The presentation timestamp (in seconds, as stored in the media segment)
+  // at which the priming samples at the start of the track end.
+  // Priming samples must be decoded but not presented.
+  primingEnd: number;
+}
+
+export interface VideoTrackDescription {
+  type: "video";
+  id: number;
+  kind: string;
+  label: string;
+  language: string;
+  codecConfig: VideoDecoderConfig;
+}
+
+export type TrackDescription = AudioTrackDescription | VideoTrackDescription;
+
+export interface InitializationSegment {
+  // The duration (in seconds), or NaN if unknown.
+  duration: number;
+  audioTracks: AudioTrackDescription[];
+  videoTracks: VideoTrackDescription[];
+}
+
+export interface CodedFrame extends CodedFrameData {
+  trackId: number;
+  // Timestamps and duration (in seconds) as stored in the media segment.
+  presentationTimestamp: number;
+  decodeTimestamp: number;
+  duration: number;
+}
+
+// An in-band event message, such as an "emsg" box in a fragmented MP4 file.
+export interface EventMessage {
+  schemeIdUri: string;
+  value: string;
+  id: number;
+  // The presentation time and duration (in seconds) as stored in the media segment.
+  // The duration is Infinity if it is unknown.
+  presentationTime: number;
+  duration: number;
+  messageData: Uint8Array;
+}
+
+// The result of parsing the start of the input buffer.
+// byteLength is the number of bytes that the caller must consume from the input buffer.
+export type ParseResult =
+  | { type: "needMoreData" }
+  | { type: "error" }
+  | { type: "skip"; byteLength: number }
+  | { type: "initializationSegmentStart"; byteLength: number }
+  | {
+      type: "initializationSegment";
+      byteLength: number;
+      segment: InitializationSegment;
+    }
+  | { type: "mediaSegmentStart"; byteLength: number }
+  | { type: "codedFrames"; byteLength: number; frames: CodedFrame[] }
+  | { type: "eventMessages"; byteLength: number; events: EventMessage[] }
+  | { type: "segmentIndex"; byteLength: number; segmentIndex: SegmentIndex }
+  | {
+      // Initialization data for the Encrypted Media Extensions,
+      // such as the "pssh" boxes of an encrypted MP4 file.
+      type: "initData";
+      byteLength: number;
+      initDataType: string;
+      initData: Uint8Array | null;
+    }
+  | { type: "mediaSegmentEnd"; byteLength: number };
+
+// Splits a byte stream into initialization segments, media segments and coded frames.
+// https://w3c.github.io/mse-byte-stream-format-registry/
+export interface ByteStreamParser {
+  // The "Generate Timestamps Flag" from the byte stream format registry.
+  readonly generateTimestamps: boolean;
+
+  // Parses the start of the input buffer, without consuming any bytes.
+  // Parsers should only peek at the bytes they need, to avoid merging chunks.
+  parse(input: InputBuffer): ParseResult;
+
+  // Returns the coded frames that the parser is holding back,
+  // e.g. because their duration is only known once the next frame is parsed,
+  // or because they are at the end of a packet without a length.
+  // This is only used when no more data follows, i.e. at the end of the stream
+  // or when the parser state is reset. Otherwise, these frames stay buffered,
+  // since the next append may still continue them.
+  flush(): CodedFrame[];
+
+  // Forgets about any partially parsed media segment.
+  reset(): void;
+}
+
+export type ByteStreamFormat = "aac" | "mp2t" | "mp4" | "mpeg" | "webm";
+
+export function getByteStreamFormat(
+  type: string
+): ByteStreamFormat | undefined {
+  switch (parseMimeType(type)?.essence) {
+    case "audio/aac":
+      return "aac";
+    case "audio/mp2t":
+    case "video/mp2t":
+      return "mp2t";
+    case "audio/mp4":
+    case "video/mp4":
+      return "mp4";
+    case "audio/mpeg":
+      return "mpeg";
+    case "audio/webm":
+    case "video/webm":
+      return "webm";
+    default:
+      return undefined;
+  }
+}
+
+export function createByteStreamParser(type: string): ByteStreamParser {
+  switch (getByteStreamFormat(type)) {
+    case "aac":
+      return new AdtsParser();
+    case "mp2t":
+      return new Mp2tParser();
+    case "mp4":
+      return new Mp4Parser();
+    case "mpeg":
+      return new MpegAudioParser();
+    case "webm":
+      return new WebmParser();
+    default:
+      throw new DOMException(
+        `Unsupported MIME type: ${type}`,
+        "NotSupportedError"
+      );
+  }
+}
@@ -0,0 +1,268 @@
+// Common Encryption for ISO base media files.
+// https://www.iso.org/standard/84637.html (ISO/IEC 23001-7)
+import { concatUint8Arrays } from "./util";
+
+export type EncryptionScheme = "cenc" | "cbcs";
+
+const AES_BLOCK_SIZE = 16;
+
+// The imported keys, by their raw key and algorithm.
+const cryptoKeys: WeakMap<
+  Uint8Array,
+  Map<string, Promise<CryptoKey>>
+> = new WeakMap();
+
+// The default encryption parameters of a track, from its "tenc" box.
+export interface TrackEncryption {
+  scheme: EncryptionScheme;
+  isProtected: boolean;
+  keyId: Uint8Array;
+  // The size of the initialization vector of each sample,
+  // or 0 if all samples use the constant initialization vector.
+  perSampleIvSize: number;
+  constantIv: Uint8Array | undefined;
+  // The number of encrypted and skipped blocks in the encryption pattern,
+  // or 0 if every block is encrypted.
+  cryptByteBlock: number;
+  skipByteBlock: number;
+}
+
+export interface Subsample {
+  clearBytes: number;
+  encryptedBytes: number;
+}
+
+// The encryption parameters of a single sample.
+export interface SampleEncryption {
+  scheme: EncryptionScheme;
+  keyId: Uint8Array;
+  // The 16-byte initialization vector.
+  iv: Uint8Array;
+  // If empty, the whole sample is encrypted.
+  subsamples: Subsample[];
+  cryptByteBlock: number;
+  skipByteBlock: number;
+}
+
+// Reads the sample auxiliary information for the samples of a track fragment.
+// This is the payload of a "senc" box after its sample count,
+// or the data referenced by the "saiz" and "saio" boxes.
+// sizes has the size of each sample's information, or undefined if its size is unknown.
+export function readSampleEncryptions(
+  data: Uint8Array,
+  sizes: ReadonlyArray<number | undefined>,
+  hasSubsamples: boolean,
+  track: TrackEncryption
+): SampleEncryption[] | undefined {
+  // https://www.iso.org/standard/84637.html (ISO/IEC 23001-7, 7.2)
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const samples: SampleEncryption[] = [];
+  let position = 0;
+  for (const size of sizes) {
+    const start = position;
+    const ivSize = track.perSampleIvSize;
+    if (position + ivSize > data.byteLength) {
+      return undefined;
+    }
+    const iv =
+      ivSize > 0
+        ? data.subarray(position, position + ivSize)
+        : track.constantIv;
+    if (iv === undefined) {
+      return undefined;
+    }
+    position += ivSize;
+    const subsamples: Subsample[] = [];
+    // With saiz, the sample has subsamples if its information is larger than the IV.
+    if (size === undefined ? hasSubsamples : size > ivSize) {
+      if (position + 2 > data.byteLength) {
+        return undefined;
+      }
+      const subsampleCount = view.getUint16(position);
+      position += 2;
+      if (position + subsampleCount * 6 > data.byteLength) {
+        return undefined;
+      }
+      for (let i = 0; i < subsampleCount; i++) {
+        subsamples.push({
+          clearBytes: view.getUint16(position),
+          encryptedBytes: view.getUint32(position + 2)
+        });
+        position += 6;
+      }
+    }
+    if (size !== undefined) {
+      position = start + size;
+    }
+    samples.push({
+      scheme: track.scheme,
+      keyId: track.keyId,
+      iv: toFullIv(iv),
+      subsamples,
+      cryptByteBlock: track.cryptByteBlock,
+      skipByteBlock: track.skipByteBlock
+    });
+  }
+  return samples;
+}
+
+// Decrypts a sample with the given 128-bit AES key.
+export async function decryptSample(
+  data: Uint8Array,
+  encryption: SampleEncryption,
+  key: Uint8Array
+): Promise<Uint8Array> {
+  const subsamples: Subsample[] =
+    encryption.subsamples.length > 0
+      ? encryption.subsamples
+      : [{ clearBytes: 0, encryptedBytes: data.byteLength }];
+  const output = data.slice();
+  if (encryption.scheme === "cenc") {
+    // https://www.iso.org/standard/84637.html (ISO/IEC 23001-7, 10.1)
+    // The encrypted bytes of all subsamples form a single AES-CTR stream.
+    const ranges: Array<[number, number]> = [];
+    let position = 0;
+    for (const { clearBytes, encryptedBytes } of subsamples) {
+      position += clearBytes;
+      ranges.push([position, position + encryptedBytes]);
+      position += encryptedBytes;
+    }
+    const cryptoKey = await importKey(key, "AES-CTR");
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-CTR", counter: encryption.iv, length: 64 },
+      cryptoKey,
+      gatherRanges(data, ranges)
+    );
+    scatterRanges(output, ranges, new Uint8Array(decrypted));
+  } else {
+    // https://www.iso.org/standard/84637.html (ISO/IEC 23001-7, 10.4)
+    // Each subsample is decrypted separately, starting from the same IV.
+    // Within a subsample, a pattern of encrypted and skipped blocks is used.
+    const cryptoKey = await importKey(key, "AES-CBC");
+    let position = 0;
+    for (const { clearBytes, encryptedBytes } of subsamples) {
+      position += clearBytes;
+      const ranges = getPatternRanges(
+        position,
+        position + encryptedBytes,
+        encryption.cryptByteBlock,
+        encryption.skipByteBlock
+      );
+      position += encryptedBytes;
+      if (ranges.length === 0) {
+        continue;
+      }
+      const decrypted = await decryptAesCbcWithoutPadding(
+        cryptoKey,
+        encryption.iv,
+        gatherRanges(data, ranges)
+      );
+      scatterRanges(output, ranges, decrypted);
+    }
+  }
+  return output;
+}
+
+function getPatternRanges(
+  start: number,
+  end: number,
+  cryptByteBlock: number,
+  skipByteBlock: number
+): Array<[number, number]> {
+  // Without a pattern, all complete blocks are encrypted.
+  // The remaining bytes of an incomplete block are never encrypted.
+  if (cryptByteBlock === 0) {
+    const blocks = Math.floor((end - start) / AES_BLOCK_SIZE);
+    return blocks > 0 ? [[start, start + blocks * AES_BLOCK_SIZE]] : [];
+  }
+  const ranges: Array<[number, number]> = [];
+  let position = start;
+  while (position + AES_BLOCK_SIZE <= end) {
+    const blocks = Math.min(
+      cryptByteBlock,
+      Math.floor((end - position) / AES_BLOCK_SIZE)
+    );
+    ranges.push([position, position + blocks * AES_BLOCK_SIZE]);
+    position += (blocks + skipByteBlock) * AES_BLOCK_SIZE;
+  }
+  return ranges;
+}
+
+async function decryptAesCbcWithoutPadding(
+  cryptoKey: CryptoKey,
+  iv: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  // WebCrypto only supports AES-CBC with PKCS#7 padding.
+  // Append a block that decrypts to a full padding block, which is then removed again.
+  // That block is the first block of the encryption of a padding block,
+  // using the last block of the data as the IV.
+  const paddingBlock = new Uint8Array(AES_BLOCK_SIZE).fill(AES_BLOCK_SIZE);
+  const encryptedPadding = await crypto.subtle.encrypt(
+    { name: "AES-CBC", iv: data.subarray(data.byteLength - AES_BLOCK_SIZE) },
+    cryptoKey,
+    paddingBlock
+  );
+  const decrypted = await crypto.subtle.decrypt(
+    { name: "AES-CBC", iv },
+    cryptoKey,
+    concatUint8Arrays(data, new Uint8Array(encryptedPadding, 0, AES_BLOCK_SIZE))
+  );
+  return new Uint8Array(decrypted);
+}
+
+function importKey(
+  key: Uint8Array,
+  algorithm: "AES-CTR" | "AES-CBC"
+): Promise<CryptoKey> {
+  let keysByAlgorithm = cryptoKeys.get(key);
+  if (keysByAlgorithm === undefined) {
+    keysByAlgorithm = new Map();
+    cryptoKeys.set(key, keysByAlgorithm);
+  }
+  let cryptoKey = keysByAlgorithm.get(algorithm);
+  if (cryptoKey === undefined) {
+    cryptoKey = crypto.subtle.importKey("raw", key, algorithm, false, [
+      "encrypt",
+      "decrypt"
+    ]);
+    keysByAlgorithm.set(algorithm, cryptoKey);
+  }
+  return cryptoKey;
+}
+
+function toFullIv(iv: Uint8Array): Uint8Array {
+  // An 8-byte IV is padded with zeros, which form the block counter for AES-CTR.
+  const fullIv = new Uint8Array(AES_BLOCK_SIZE);
+  fullIv.set(iv.subarray(0, AES_BLOCK_SIZE));
+  return fullIv;
+}
+
+function gatherRanges(
+  data: Uint8Array,
+  ranges: ReadonlyArray<[number, number]>
+): Uint8Array {
+  let length = 0;
+  for (const [start, end] of ranges) {
+    length += end - start;
+  }
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const [start, end] of ranges) {
+    result.set(data.subarray(start, end), offset);
+    offset += end - start;
+  }
+  return result;
+}
+
+function scatterRanges(
+  output: Uint8Array,
+  ranges: ReadonlyArray<[number, number]>,
+  data: Uint8Array
+): void {
+  let offset = 0;
+  for (const [start, end] of ranges) {
+    output.set(data.subarray(offset, offset + end - start), start);
+    offset += end - start;
+  }
+}
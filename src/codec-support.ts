@@ -0,0 +1,204 @@
+import { ByteStreamFormat, getByteStreamFormat } from "./byte-stream-format";
+import { getCodecs, parseMimeType } from "./mime-type";
+
+type CodecFamily =
+  | "avc"
+  | "hevc"
+  | "vp8"
+  | "vp9"
+  | "av1"
+  | "aac"
+  | "mp3"
+  | "opus"
+  | "vorbis"
+  | "flac"
+  | "ac3"
+  | "eac3";
+
+interface CodecInfo {
+  family: CodecFamily;
+  kind: "audio" | "video";
+  // The codec string to use with WebCodecs.
+  codec: string;
+}
+
+// The codecs that each byte stream format can carry.
+const CONTAINER_CODECS: Record<ByteStreamFormat, ReadonlySet<CodecFamily>> = {
+  aac: new Set(["aac"]),
+  mp2t: new Set(["avc", "aac"]),
+  mp4: new Set([
+    "avc",
+    "hevc",
+    "vp9",
+    "av1",
+    "aac",
+    "opus",
+    "flac",
+    "ac3",
+    "eac3"
+  ]),
+  mpeg: new Set(["mp3"]),
+  // WebM has no decode timestamps, so codecs with frame reordering
+  // (such as H.264 with B-frames) cannot be supported.
+  webm: new Set(["vp8", "vp9", "av1", "aac", "opus", "vorbis", "flac"])
+};
+
+// The results of VideoDecoder.isConfigSupported() and AudioDecoder.isConfigSupported(),
+// by codec string.
+const probeResults: Map<string, boolean> = new Map();
+const probes: Map<string, Promise<boolean>> = new Map();
+
+export function isTypeSupported(type: string): boolean {
+  // https://w3c.github.io/media-source/#dom-mediasource-istypesupported
+  // 1. If type is an empty string, then return false.
+  // 2. If type does not contain a valid MIME type string, then return false.
+  const mimeType = parseMimeType(type);
+  if (mimeType === undefined) {
+    return false;
+  }
+  // 3. If type contains a media type or media subtype that the MediaSource does not support,
+  //    then return false.
+  const format = getByteStreamFormat(type);
+  if (format === undefined) {
+    return false;
+  }
+  const codecs = getCodecs(mimeType);
+  if (codecs === undefined) {
+    return true;
+  }
+  for (const codecString of codecs) {
+    // 4. If type contains a codec that the MediaSource does not support, then return false.
+    const codec = parseCodec(codecString);
+    if (codec === undefined || isKnownUnsupported(codec)) {
+      return false;
+    }
+    // 5. If the MediaSource does not support the specified combination of media type,
+    //    media subtype, and codecs then return false.
+    if (!CONTAINER_CODECS[format].has(codec.family)) {
+      return false;
+    }
+    if (codec.kind === "video" && mimeType.essence.startsWith("audio/")) {
+      return false;
+    }
+  }
+  // 6. Return true.
+  return true;
+}
+
+// Probes the decoders for all codecs in the given MIME types.
+// Once this resolves, isTypeSupported() knows whether those codecs are supported.
+export async function probeCodecs(types: Iterable<string>): Promise<void> {
+  const pending: Array<Promise<boolean>> = [];
+  for (const type of types) {
+    const mimeType = parseMimeType(type);
+    const codecs = mimeType !== undefined ? getCodecs(mimeType) : undefined;
+    for (const codecString of codecs ?? []) {
+      const codec = parseCodec(codecString);
+      if (codec !== undefined) {
+        pending.push(startProbe(codec));
+      }
+    }
+  }
+  await Promise.all(pending);
+}
+
+function isKnownUnsupported(codec: CodecInfo): boolean {
+  // The decoder can only be probed asynchronously, so this is best-effort.
+  // Until the probe finishes, assume that a codec string which is syntactically valid
+  // is supported. Call probeCodecs() first to get a definite answer.
+  const result = probeResults.get(getProbeKey(codec));
+  if (result !== undefined) {
+    return !result;
+  }
+  startProbe(codec);
+  return false;
+}
+
+function startProbe(codec: CodecInfo): Promise<boolean> {
+  const key = getProbeKey(codec);
+  let probe = probes.get(key);
+  if (probe === undefined) {
+    probe = probeCodec(codec)
+      // An invalid configuration is not supported.
+      .catch(() => false)
+      .then((supported) => {
+        probeResults.set(key, supported);
+        return supported;
+      });
+    probes.set(key, probe);
+  }
+  return probe;
+}
+
+function getProbeKey(codec: CodecInfo): string {
+  return `${codec.kind}:${codec.codec}`;
+}
+
+async function probeCodec(codec: CodecInfo): Promise<boolean> {
+  if (codec.kind === "video") {
+    const support = await VideoDecoder.isConfigSupported({
+      codec: codec.codec
+    });
+    return support.supported ?? false;
+  } else {
+    const support = await AudioDecoder.isConfigSupported({
+      codec: codec.codec,
+      sampleRate: 48000,
+      numberOfChannels: 2
+    });
+    return support.supported ?? false;
+  }
+}
+
+const AVC_CODEC = /^(avc1|avc3)\.[0-9a-f]{6}$/i;
+const HEVC_CODEC =
+  /^(hvc1|hev1)\.[a-c]?\d{1,2}\.[0-9a-f]{1,8}\.[lh]\d{1,3}(\.[0-9a-f]{1,2}){0,6}$/i;
+const VP9_CODEC = /^vp09(\.\d{2}){3}(\.\d{2}){0,5}$/;
+const AV1_CODEC =
+  /^av01\.\d\.\d{2}[mh]\.\d{2}(\.\d(\.\d{3}(\.\d{2}){0,3}(\.\d)?)?)?$/i;
+const AAC_CODEC = /^mp4a\.(40\.\d{1,2}|6[67])$/i;
+
+// Parses a codec string from the "codecs" parameter.
+// Returns undefined if the codec string is not recognized.
+function parseCodec(codec: string): CodecInfo | undefined {
+  // https://www.w3.org/TR/webcodecs-codec-registry/
+  if (AVC_CODEC.test(codec)) {
+    return { family: "avc", kind: "video", codec };
+  } else if (HEVC_CODEC.test(codec)) {
+    return { family: "hevc", kind: "video", codec };
+  } else if (VP9_CODEC.test(codec)) {
+    return { family: "vp9", kind: "video", codec };
+  } else if (AV1_CODEC.test(codec)) {
+    return { family: "av1", kind: "video", codec };
+  } else if (AAC_CODEC.test(codec)) {
+    return { family: "aac", kind: "audio", codec };
+  }
+  switch (codec.toLowerCase()) {
+    case "vp8":
+    case "vp8.0":
+      return { family: "vp8", kind: "video", codec: "vp8" };
+    case "vp9":
+    case "vp9.0":
+      // https://www.webmproject.org/vp9/mp4/#codecs-parameter-string
+      // The short form implies profile 0, level 1 and 8 bits.
+      return { family: "vp9", kind: "video", codec: "vp09.00.10.08" };
+    case "mp3":
+    case "mp4a.69":
+    case "mp4a.6b":
+      return { family: "mp3", kind: "audio", codec: "mp3" };
+    case "opus":
+      return { family: "opus", kind: "audio", codec: "opus" };
+    case "vorbis":
+      return { family: "vorbis", kind: "audio", codec: "vorbis" };
+    case "flac":
+      return { family: "flac", kind: "audio", codec: "flac" };
+    case "ac-3":
+    case "mp4a.a5":
+      return { family: "ac3", kind: "audio", codec: "ac-3" };
+    case "ec-3":
+    case "mp4a.a6":
+      return { family: "eac3", kind: "audio", codec: "ec-3" };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,124 @@
+import { decryptSample, SampleEncryption } from "./cenc";
+import { EncodedChunk } from "./track-buffer";
+
+// Decrypts encrypted coded frames right before they are decoded.
+// The frames (and other decoder tasks, such as reconfiguring the decoder) are passed
+// to the decoder in the order in which they were queued, so everything after
+// an encrypted frame waits until that frame is decrypted.
+export class DecryptionQueue<T extends EncodedChunk> {
+  readonly #decode: (frame: T) => void;
+  readonly #getDecryptionKey: (
+    keyId: Uint8Array,
+    signal: AbortSignal
+  ) => Promise<Uint8Array>;
+  readonly #onError: (error: unknown) => void;
+  // Settles once the last queued task has run.
+  #pendingTasks: Promise<void> | undefined = undefined;
+  #abortController: AbortController = new AbortController();
+
+  constructor(
+    decode: (frame: T) => void,
+    getDecryptionKey: (
+      keyId: Uint8Array,
+      signal: AbortSignal
+    ) => Promise<Uint8Array>,
+    onError: (error: unknown) => void
+  ) {
+    this.#decode = decode;
+    this.#getDecryptionKey = getDecryptionKey;
+    this.#onError = onError;
+  }
+
+  enqueue(frame: T, encryption: SampleEncryption | undefined): void {
+    if (encryption === undefined) {
+      this.run(() => this.#decode(frame));
+      return;
+    }
+    const signal = this.#abortController.signal;
+    this.#schedule(
+      this.#decrypt(frame, encryption, signal).then(
+        (clearFrame) => () => this.#decode(clearFrame)
+      ),
+      signal
+    );
+  }
+
+  // Runs the task right away, or after the queued tasks if any frame is still being decrypted.
+  run(task: () => void): void {
+    if (this.#pendingTasks === undefined) {
+      task();
+      return;
+    }
+    this.#schedule(Promise.resolve(task), this.#abortController.signal);
+  }
+
+  // Drops all frames and tasks that did not run yet.
+  reset(): void {
+    this.#abortController.abort();
+    this.#abortController = new AbortController();
+    this.#pendingTasks = undefined;
+  }
+
+  async #decrypt(
+    frame: T,
+    encryption: SampleEncryption,
+    signal: AbortSignal
+  ): Promise<T> {
+    const key = await this.#getDecryptionKey(encryption.keyId, signal);
+    return await decryptFrame(frame, encryption, key);
+  }
+
+  #schedule(readyTask: Promise<() => void>, signal: AbortSignal): void {
+    const pendingTasks = this.#runInOrder(
+      readyTask,
+      this.#pendingTasks,
+      signal
+    ).then(() => {
+      if (this.#pendingTasks === pendingTasks) {
+        this.#pendingTasks = undefined;
+      }
+    });
+    this.#pendingTasks = pendingTasks;
+  }
+
+  async #runInOrder(
+    readyTask: Promise<() => void>,
+    previousTasks: Promise<void> | undefined,
+    signal: AbortSignal
+  ): Promise<void> {
+    let task: () => void;
+    try {
+      task = await readyTask;
+    } catch (e) {
+      if (!signal.aborted) {
+        this.reset();
+        this.#onError(e);
+      }
+      return;
+    }
+    await previousTasks;
+    if (!signal.aborted) {
+      task();
+    }
+  }
+}
+
+async function decryptFrame<T extends EncodedChunk>(
+  frame: T,
+  encryption: SampleEncryption,
+  key: Uint8Array
+): Promise<T> {
+  const data = new Uint8Array(frame.byteLength);
+  frame.copyTo(data);
+  const init: EncodedAudioChunkInit & EncodedVideoChunkInit = {
+    data: await decryptSample(data, encryption, key),
+    timestamp: frame.timestamp,
+    duration: frame.duration ?? undefined,
+    type: frame.type
+  };
+  return (
+    frame instanceof EncodedAudioChunk
+      ? new EncodedAudioChunk(init)
+      : new EncodedVideoChunk(init)
+  ) as T;
+}
@@ -0,0 +1,98 @@
+// https://www.itu.int/rec/T-REC-H.264
+export const enum NalUnitType {
+  IDR = 5,
+  SPS = 7,
+  PPS = 8,
+  AUD = 9
+}
+
+export function getNalUnitType(nalUnit: Uint8Array): number {
+  return nalUnit[0] & 0x1f;
+}
+
+// Splits a byte stream in Annex B format into NAL units, without their start codes.
+export function splitAnnexBNalUnits(data: Uint8Array): Uint8Array[] {
+  const nalUnits: Uint8Array[] = [];
+  let nalUnitStart: number | undefined = undefined;
+  let i = 0;
+  while (i + 2 < data.byteLength) {
+    // Look for a 0x000001 start code.
+    if (data[i] !== 0 || data[i + 1] !== 0 || data[i + 2] !== 1) {
+      i++;
+      continue;
+    }
+    if (nalUnitStart !== undefined) {
+      // A 4-byte start code (0x00000001) has an extra leading zero.
+      const nalUnitEnd = i > 0 && data[i - 1] === 0 ? i - 1 : i;
+      nalUnits.push(data.subarray(nalUnitStart, nalUnitEnd));
+    }
+    i += 3;
+    nalUnitStart = i;
+  }
+  if (nalUnitStart !== undefined && nalUnitStart < data.byteLength) {
+    nalUnits.push(data.subarray(nalUnitStart));
+  }
+  return nalUnits.filter((nalUnit) => nalUnit.byteLength > 0);
+}
+
+// Converts NAL units into a sample in AVC format, where each NAL unit
+// is prefixed with its length as a 4-byte integer.
+export function toAvcSample(nalUnits: readonly Uint8Array[]): Uint8Array {
+  const byteLength = nalUnits.reduce(
+    (total, nalUnit) => total + 4 + nalUnit.byteLength,
+    0
+  );
+  const sample = new Uint8Array(byteLength);
+  const view = new DataView(sample.buffer);
+  let offset = 0;
+  for (const nalUnit of nalUnits) {
+    view.setUint32(offset, nalUnit.byteLength);
+    sample.set(nalUnit, offset + 4);
+    offset += 4 + nalUnit.byteLength;
+  }
+  return sample;
+}
+
+// Builds a VideoDecoderConfig from the sequence and picture parameter sets.
+export function getAvcDecoderConfig(
+  sps: Uint8Array,
+  pps: readonly Uint8Array[]
+): VideoDecoderConfig {
+  // https://www.w3.org/TR/webcodecs-avc-codec-registration/#videodecoderconfig-description
+  // The description is an AVCDecoderConfigurationRecord from ISO/IEC 14496-15.
+  const byteLength =
+    6 +
+    2 +
+    sps.byteLength +
+    1 +
+    pps.reduce((total, nalUnit) => total + 2 + nalUnit.byteLength, 0);
+  const record = new Uint8Array(byteLength);
+  const view = new DataView(record.buffer);
+  record[0] = 1; // configurationVersion
+  record[1] = sps[1]; // AVCProfileIndication
+  record[2] = sps[2]; // profile_compatibility
+  record[3] = sps[3]; // AVCLevelIndication
+  record[4] = 0xfc | 3; // lengthSizeMinusOne
+  record[5] = 0xe0 | 1; // numOfSequenceParameterSets
+  view.setUint16(6, sps.byteLength);
+  record.set(sps, 8);
+  let offset = 8 + sps.byteLength;
+  record[offset++] = pps.length; // numOfPictureParameterSets
+  for (const nalUnit of pps) {
+    view.setUint16(offset, nalUnit.byteLength);
+    record.set(nalUnit, offset + 2);
+    offset += 2 + nalUnit.byteLength;
+  }
+  return {
+    codec: `avc1.${getAvcCodecParameters(sps)}`,
+    description: record
+  };
+}
+
+function getAvcCodecParameters(sps: Uint8Array): string {
+  // https://www.rfc-editor.org/rfc/rfc6381#section-3.3
+  // The profile, constraint flags and level as hexadecimal digits.
+  return Array.from(sps.subarray(1, 4), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
@@ -1,3 +1,35 @@
 export { BabyVideoElement } from "./video-element";
 export { BabyMediaSource } from "./media-source";
 export { BabySourceBuffer } from "./source-buffer";
+export { BabySourceBufferList } from "./source-buffer-list";
+export { SegmentIndex } from "./segment-index";
+export { BabyMediaError } from "./media-error";
+export { BabyMediaSourceHandle } from "./media-source-handle";
+export { BabyManagedMediaSource } from "./managed-media-source";
+export {
+  BabyBufferedChangeEvent,
+  BabyManagedSourceBuffer
+} from "./managed-source-buffer";
+export {
+  BabyAudioTrack,
+  BabyAudioTrackList,
+  BabyTrackEvent,
+  BabyVideoTrack,
+  BabyVideoTrackList
+} from "./track-list";
+export {
+  BabyMediaEncryptedEvent,
+  BabyMediaKeyMessageEvent,
+  BabyMediaKeys,
+  BabyMediaKeySession,
+  BabyMediaKeyStatusMap,
+  BabyMediaKeySystemAccess,
+  requestMediaKeySystemAccess
+} from "./media-keys";
+export {
+  BabyDataCue,
+  BabyTextTrack,
+  BabyTextTrackCue,
+  BabyTextTrackCueList,
+  BabyTextTrackList
+} from "./text-track";
@@ -0,0 +1,69 @@
+// The [[input buffer]] of a SourceBuffer, kept as a list of appended chunks.
+// https://w3c.github.io/media-source/#sourcebuffer-input-buffer
+// Appending and consuming bytes never copies the bytes that are already buffered.
+export class InputBuffer {
+  #chunks: Uint8Array[] = [];
+  #byteLength: number = 0;
+
+  get byteLength(): number {
+    return this.#byteLength;
+  }
+
+  append(data: Uint8Array): void {
+    if (data.byteLength === 0) {
+      return;
+    }
+    this.#chunks.push(data);
+    this.#byteLength += data.byteLength;
+  }
+
+  // Returns the first byteLength bytes, or fewer if not enough bytes are buffered.
+  // This is a view on the appended data if those bytes lie within a single chunk.
+  // Otherwise, the chunks holding them are merged first, so peeking at the same bytes
+  // again does not copy them again. However, bytes that remain buffered after a merge
+  // are copied again if a later, larger peek merges them with newly appended chunks.
+  peek(byteLength: number = this.#byteLength): Uint8Array {
+    byteLength = Math.min(byteLength, this.#byteLength);
+    if (byteLength === 0) {
+      return new Uint8Array(0);
+    }
+    const firstChunk = this.#chunks[0];
+    if (byteLength <= firstChunk.byteLength) {
+      return firstChunk.subarray(0, byteLength);
+    }
+    let chunkCount = 0;
+    let mergedLength = 0;
+    while (mergedLength < byteLength) {
+      mergedLength += this.#chunks[chunkCount].byteLength;
+      chunkCount++;
+    }
+    const merged = new Uint8Array(mergedLength);
+    let offset = 0;
+    for (let i = 0; i < chunkCount; i++) {
+      merged.set(this.#chunks[i], offset);
+      offset += this.#chunks[i].byteLength;
+    }
+    this.#chunks.splice(0, chunkCount, merged);
+    return merged.subarray(0, byteLength);
+  }
+
+  // Removes the first byteLength bytes.
+  // Views that were returned by peek() remain valid.
+  consume(byteLength: number): void {
+    this.#byteLength -= byteLength;
+    while (byteLength > 0) {
+      const firstChunk = this.#chunks[0];
+      if (byteLength < firstChunk.byteLength) {
+        this.#chunks[0] = firstChunk.subarray(byteLength);
+        break;
+      }
+      this.#chunks.shift();
+      byteLength -= firstChunk.byteLength;
+    }
+  }
+
+  clear(): void {
+    this.#chunks = [];
+    this.#byteLength = 0;
+  }
+}
@@ -0,0 +1,87 @@
+import { BabyMediaSource, getBuffered, getMediaElement } from "./media-source";
+import {
+  BabyManagedSourceBuffer,
+  evictUnneededData
+} from "./managed-source-buffer";
+import { BabySourceBuffer } from "./source-buffer";
+import { queueTask } from "./util";
+
+// Start streaming when less than this many seconds are buffered ahead of the current position,
+// and stop streaming once at least this many seconds are buffered ahead.
+const STREAMING_LOW_WATERMARK: number = 10;
+const STREAMING_HIGH_WATERMARK: number = 30;
+
+export let updateStreaming: (mediaSource: BabyManagedMediaSource) => void;
+
+export class BabyManagedMediaSource extends BabyMediaSource {
+  #streaming: boolean = false;
+
+  get streaming(): boolean {
+    // https://w3c.github.io/media-source/#dom-managedmediasource-streaming
+    return this.#streaming;
+  }
+
+  protected createSourceBuffer(type: string): BabySourceBuffer {
+    return new BabyManagedSourceBuffer(this, type);
+  }
+
+  protected onMonitorBuffer(): void {
+    const mediaElement = getMediaElement(this);
+    if (!mediaElement) {
+      return;
+    }
+    // The user agent may evict media data that is no longer needed.
+    for (const sourceBuffer of this.sourceBuffers) {
+      if (sourceBuffer instanceof BabyManagedSourceBuffer) {
+        evictUnneededData(sourceBuffer);
+      }
+    }
+    this.#updateStreaming();
+  }
+
+  #updateStreaming(): void {
+    const mediaElement = getMediaElement(this);
+    if (!mediaElement) {
+      return;
+    }
+    const buffered = getBuffered(this);
+    const currentTime = mediaElement.currentTime;
+    const playbackRate = mediaElement.playbackRate;
+    const currentRange = buffered.find(currentTime);
+    let bufferedAhead = 0;
+    let bufferedUntilEnd = this.readyState === "ended";
+    if (currentRange !== undefined) {
+      if (playbackRate >= 0) {
+        bufferedAhead = currentRange[1] - currentTime;
+        bufferedUntilEnd ||= currentRange[1] >= this.duration;
+      } else {
+        bufferedAhead = currentTime - currentRange[0];
+        bufferedUntilEnd ||= currentRange[0] <= 0;
+      }
+    }
+    // If the user agent needs more media data, set [[streaming]] to true
+    // and queue a task to fire an event named startstreaming.
+    if (
+      !this.#streaming &&
+      !bufferedUntilEnd &&
+      bufferedAhead < STREAMING_LOW_WATERMARK
+    ) {
+      this.#streaming = true;
+      queueTask(() => this.dispatchEvent(new Event("startstreaming")));
+      return;
+    }
+    // If the user agent has enough media data, set [[streaming]] to false
+    // and queue a task to fire an event named endstreaming.
+    if (
+      this.#streaming &&
+      (bufferedUntilEnd || bufferedAhead >= STREAMING_HIGH_WATERMARK)
+    ) {
+      this.#streaming = false;
+      queueTask(() => this.dispatchEvent(new Event("endstreaming")));
+    }
+  }
+
+  static {
+    updateStreaming = (mediaSource) => mediaSource.#updateStreaming();
+  }
+}
@@ -0,0 +1,90 @@
+import { BabySourceBuffer } from "./source-buffer";
+import {
+  BabyManagedMediaSource,
+  updateStreaming
+} from "./managed-media-source";
+import { getMediaElement } from "./media-source";
+import { getSourceBuffers } from "./source-buffer-list";
+import { TimeRanges } from "./time-ranges";
+import { queueTask } from "./util";
+
+// Media data further than this many seconds behind the current position
+// may be evicted automatically.
+const MAX_BUFFER_BEHIND: number = 30;
+
+export interface BufferedChangeEventInit extends EventInit {
+  addedRanges?: TimeRanges;
+  removedRanges?: TimeRanges;
+}
+
+export class BabyBufferedChangeEvent extends Event {
+  readonly addedRanges: TimeRanges;
+  readonly removedRanges: TimeRanges;
+
+  constructor(type: string, init: BufferedChangeEventInit = {}) {
+    super(type, init);
+    this.addedRanges = init.addedRanges ?? new TimeRanges([]);
+    this.removedRanges = init.removedRanges ?? new TimeRanges([]);
+  }
+}
+
+export let evictUnneededData: (sourceBuffer: BabyManagedSourceBuffer) => void;
+
+export class BabyManagedSourceBuffer extends BabySourceBuffer {
+  readonly #parent: BabyManagedMediaSource;
+
+  constructor(parent: BabyManagedMediaSource, type: string) {
+    super(parent, type);
+    this.#parent = parent;
+  }
+
+  protected onBufferedChange(previousBuffered: TimeRanges): void {
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
+      return;
+    }
+    const buffered = this.buffered;
+    const addedRanges = buffered.subtract(previousBuffered);
+    const removedRanges = previousBuffered.subtract(buffered);
+    if (addedRanges.length === 0 && removedRanges.length === 0) {
+      return;
+    }
+    queueTask(() =>
+      this.dispatchEvent(
+        new BabyBufferedChangeEvent("bufferedchange", {
+          addedRanges,
+          removedRanges
+        })
+      )
+    );
+    updateStreaming(this.#parent);
+  }
+
+  #evictUnneededData(): void {
+    const mediaElement = getMediaElement(this.#parent);
+    if (!mediaElement || this.updating) {
+      return;
+    }
+    const buffered = this.buffered;
+    if (buffered.length === 0) {
+      return;
+    }
+    const currentTime = mediaElement.currentTime;
+    if (mediaElement.playbackRate >= 0) {
+      // Evict media data that was played a while ago.
+      const end = currentTime - MAX_BUFFER_BEHIND;
+      if (buffered.start(0) < end) {
+        this.evictCodedFrames(0, end);
+      }
+    } else {
+      // When playing backwards, evict media data after the current position instead.
+      const start = currentTime + MAX_BUFFER_BEHIND;
+      if (buffered.end(buffered.length - 1) > start) {
+        this.evictCodedFrames(start, this.#parent.duration);
+      }
+    }
+  }
+
+  static {
+    evictUnneededData = (sourceBuffer) => sourceBuffer.#evictUnneededData();
+  }
+}
@@ -0,0 +1,611 @@
+import { isTypeSupported } from "./codec-support";
+import { readChildBoxes } from "./mp4-box";
+import { arrayRemove, fromHex, queueTask, toHex, toUint8Array } from "./util";
+
+// Attaches the MediaKeys to a media element, which is notified whenever keys become available.
+// Returns false if the MediaKeys are already in use by another media element.
+export let attachMediaKeys: (
+  mediaKeys: BabyMediaKeys,
+  observer: () => void
+) => boolean;
+export let detachMediaKeys: (mediaKeys: BabyMediaKeys) => void;
+// Returns the key with the given key ID from any of the sessions.
+export let findDecryptionKey: (
+  mediaKeys: BabyMediaKeys,
+  keyId: Uint8Array
+) => Uint8Array | undefined;
+
+let notifyKeysChanged: (mediaKeys: BabyMediaKeys) => void;
+let removeSession: (
+  mediaKeys: BabyMediaKeys,
+  session: BabyMediaKeySession
+) => void;
+let getSessionKey: (
+  session: BabyMediaKeySession,
+  keyId: Uint8Array
+) => Uint8Array | undefined;
+// Replaces the statuses, which are keyed by their hexadecimal key ID.
+let setKeyStatuses: (
+  keyStatuses: BabyMediaKeyStatusMap,
+  statuses: Map<string, MediaKeyStatus>
+) => void;
+
+// https://w3c.github.io/encrypted-media/#clear-key
+const CLEAR_KEY_SYSTEM = "org.w3.clearkey";
+// https://www.w3.org/TR/eme-initdata-cenc/#common-system
+const COMMON_SYSTEM_ID = "1077efecc0b24d02ace33c1e52e2fb4b";
+const SUPPORTED_INIT_DATA_TYPES: readonly string[] = ["cenc", "keyids"];
+const SUPPORTED_ENCRYPTION_SCHEMES: readonly string[] = ["cenc", "cbcs"];
+
+let nextSessionId: number = 1;
+
+export interface MediaKeyMessageEventInit extends EventInit {
+  messageType: MediaKeyMessageType;
+  message: ArrayBuffer;
+}
+
+export class BabyMediaKeyMessageEvent extends Event {
+  readonly messageType: MediaKeyMessageType;
+  readonly message: ArrayBuffer;
+
+  constructor(type: string, init: MediaKeyMessageEventInit) {
+    super(type, init);
+    this.messageType = init.messageType;
+    this.message = init.message;
+  }
+}
+
+export interface MediaEncryptedEventInit extends EventInit {
+  initDataType?: string;
+  initData?: ArrayBuffer | null;
+}
+
+export class BabyMediaEncryptedEvent extends Event {
+  readonly initDataType: string;
+  readonly initData: ArrayBuffer | null;
+
+  constructor(type: string, init: MediaEncryptedEventInit = {}) {
+    super(type, init);
+    this.initDataType = init.initDataType ?? "";
+    this.initData = init.initData ?? null;
+  }
+}
+
+export async function requestMediaKeySystemAccess(
+  keySystem: string,
+  supportedConfigurations: MediaKeySystemConfiguration[]
+): Promise<BabyMediaKeySystemAccess> {
+  // https://w3c.github.io/encrypted-media/#dom-navigator-requestmediakeysystemaccess
+  // 1. If keySystem is the empty string, return a promise rejected with a newly created TypeError.
+  if (keySystem === "") {
+    throw new TypeError("The key system is empty");
+  }
+  // 2. If supportedConfigurations is empty, return a promise rejected with a newly created TypeError.
+  if (supportedConfigurations.length === 0) {
+    throw new TypeError("No configurations were given");
+  }
+  // 6.2. If keySystem is not one of the Key Systems supported by the user agent,
+  //      reject promise with a NotSupportedError.
+  if (keySystem !== CLEAR_KEY_SYSTEM) {
+    throw new DOMException(
+      `Unsupported key system: ${keySystem}`,
+      "NotSupportedError"
+    );
+  }
+  // 6.4. For each value in supportedConfigurations:
+  for (const candidateConfiguration of supportedConfigurations) {
+    // 6.4.2. Let supported configuration be the result of executing the
+    //        Get Supported Configuration algorithm.
+    const supportedConfiguration = getSupportedConfiguration(
+      candidateConfiguration
+    );
+    // 6.4.3. If supported configuration is not NotSupported, resolve promise
+    //        with a new MediaKeySystemAccess object.
+    if (supportedConfiguration !== undefined) {
+      return new BabyMediaKeySystemAccess(keySystem, supportedConfiguration);
+    }
+  }
+  // 6.5. Reject promise with a NotSupportedError.
+  throw new DOMException(
+    "None of the configurations are supported",
+    "NotSupportedError"
+  );
+}
+
+function getSupportedConfiguration(
+  candidate: MediaKeySystemConfiguration
+): MediaKeySystemConfiguration | undefined {
+  // https://w3c.github.io/encrypted-media/#get-supported-configuration-and-consent
+  // Only temporary sessions are supported, which need neither
+  // a distinctive identifier nor persistent state.
+  if (
+    candidate.distinctiveIdentifier === "required" ||
+    candidate.persistentState === "required"
+  ) {
+    return undefined;
+  }
+  const sessionTypes = candidate.sessionTypes ?? ["temporary"];
+  if (sessionTypes.some((sessionType) => sessionType !== "temporary")) {
+    return undefined;
+  }
+  // If the configuration lists any init data types, at least one of them must be supported.
+  const initDataTypes = (candidate.initDataTypes ?? []).filter((initDataType) =>
+    SUPPORTED_INIT_DATA_TYPES.includes(initDataType)
+  );
+  if (
+    (candidate.initDataTypes ?? []).length > 0 &&
+    initDataTypes.length === 0
+  ) {
+    return undefined;
+  }
+  const videoCapabilities = getSupportedCapabilities(
+    candidate.videoCapabilities ?? []
+  );
+  const audioCapabilities = getSupportedCapabilities(
+    candidate.audioCapabilities ?? []
+  );
+  if (videoCapabilities === undefined || audioCapabilities === undefined) {
+    return undefined;
+  }
+  return {
+    label: candidate.label ?? "",
+    initDataTypes,
+    videoCapabilities,
+    audioCapabilities,
+    distinctiveIdentifier: "not-allowed",
+    persistentState: "not-allowed",
+    sessionTypes: ["temporary"]
+  };
+}
+
+function getSupportedCapabilities(
+  requestedCapabilities: readonly MediaKeySystemMediaCapability[]
+): MediaKeySystemMediaCapability[] | undefined {
+  // https://w3c.github.io/encrypted-media/#get-supported-capabilities-for-audio-video-type
+  // Clear Key has no robustness levels.
+  const supportedCapabilities = requestedCapabilities.filter(
+    (capability) =>
+      (capability.robustness ?? "") === "" &&
+      (capability.encryptionScheme == null ||
+        SUPPORTED_ENCRYPTION_SCHEMES.includes(capability.encryptionScheme)) &&
+      isTypeSupported(capability.contentType ?? "")
+  );
+  // If the configuration lists any capabilities, at least one of them must be supported.
+  if (requestedCapabilities.length > 0 && supportedCapabilities.length === 0) {
+    return undefined;
+  }
+  return supportedCapabilities;
+}
+
+export class BabyMediaKeySystemAccess {
+  readonly keySystem: string;
+  readonly #configuration: MediaKeySystemConfiguration;
+
+  constructor(keySystem: string, configuration: MediaKeySystemConfiguration) {
+    this.keySystem = keySystem;
+    this.#configuration = configuration;
+  }
+
+  getConfiguration(): MediaKeySystemConfiguration {
+    return this.#configuration;
+  }
+
+  async createMediaKeys(): Promise<BabyMediaKeys> {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeysystemaccess-createmediakeys
+    return new BabyMediaKeys();
+  }
+}
+
+export class BabyMediaKeys {
+  readonly #sessions: BabyMediaKeySession[] = [];
+  #observer: (() => void) | undefined = undefined;
+
+  createSession(
+    sessionType: MediaKeySessionType = "temporary"
+  ): BabyMediaKeySession {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeys-createsession
+    // 1. If this object's supported session types value does not contain sessionType,
+    //    throw a NotSupportedError.
+    if (sessionType !== "temporary") {
+      throw new DOMException(
+        `Unsupported session type: ${sessionType}`,
+        "NotSupportedError"
+      );
+    }
+    const session = new BabyMediaKeySession(this);
+    this.#sessions.push(session);
+    return session;
+  }
+
+  async setServerCertificate(
+    _serverCertificate: BufferSource
+  ): Promise<boolean> {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeys-setservercertificate
+    // 1. If the Key System implementation represented by this object's cdm implementation value
+    //    does not support server certificates, return a promise resolved with false.
+    return false;
+  }
+
+  static {
+    attachMediaKeys = (mediaKeys, observer) => {
+      if (mediaKeys.#observer !== undefined) {
+        return false;
+      }
+      mediaKeys.#observer = observer;
+      return true;
+    };
+    detachMediaKeys = (mediaKeys) => {
+      mediaKeys.#observer = undefined;
+    };
+    findDecryptionKey = (mediaKeys, keyId) => {
+      for (const session of mediaKeys.#sessions) {
+        const key = getSessionKey(session, keyId);
+        if (key !== undefined) {
+          return key;
+        }
+      }
+      return undefined;
+    };
+    notifyKeysChanged = (mediaKeys) => mediaKeys.#observer?.();
+    removeSession = (mediaKeys, session) =>
+      arrayRemove(mediaKeys.#sessions, session);
+  }
+}
+
+export class BabyMediaKeySession extends EventTarget {
+  readonly #mediaKeys: BabyMediaKeys;
+  #sessionId: string = "";
+  #uninitialized: boolean = true;
+  #callable: boolean = false;
+  #closed: boolean = false;
+  readonly #closedPromise: Promise<MediaKeySessionClosedReason>;
+  #resolveClosed!: (reason: MediaKeySessionClosedReason) => void;
+  readonly #keyStatuses: BabyMediaKeyStatusMap = new BabyMediaKeyStatusMap();
+  // The keys of this session, by their hexadecimal key ID.
+  readonly #keys: Map<string, Uint8Array> = new Map();
+
+  constructor(mediaKeys: BabyMediaKeys) {
+    super();
+    this.#mediaKeys = mediaKeys;
+    this.#closedPromise = new Promise((resolve) => {
+      this.#resolveClosed = resolve;
+    });
+  }
+
+  get sessionId(): string {
+    return this.#sessionId;
+  }
+
+  get expiration(): number {
+    // Clear Key licenses do not expire.
+    return NaN;
+  }
+
+  get closed(): Promise<MediaKeySessionClosedReason> {
+    return this.#closedPromise;
+  }
+
+  get keyStatuses(): BabyMediaKeyStatusMap {
+    return this.#keyStatuses;
+  }
+
+  async generateRequest(
+    initDataType: string,
+    initData: BufferSource
+  ): Promise<void> {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeysession-generaterequest
+    // 1. If this object's closing or closed value is true,
+    //    return a promise rejected with an InvalidStateError.
+    if (this.#closed) {
+      throw new DOMException("The session is closed", "InvalidStateError");
+    }
+    // 2. If this object's uninitialized value is false,
+    //    return a promise rejected with an InvalidStateError.
+    if (!this.#uninitialized) {
+      throw new DOMException(
+        "The session is already initialized",
+        "InvalidStateError"
+      );
+    }
+    // 3. Let this object's uninitialized value be false.
+    this.#uninitialized = false;
+    // 4. If initDataType is the empty string, return a promise rejected with a newly created TypeError.
+    if (initDataType === "") {
+      throw new TypeError("The init data type is empty");
+    }
+    // 5. If initData is an empty array, return a promise rejected with a newly created TypeError.
+    const data = toUint8Array(initData);
+    if (data.byteLength === 0) {
+      throw new TypeError("The init data is empty");
+    }
+    // 6. If the Key System implementation does not support initDataType as an
+    //    Initialization Data Type, return a promise rejected with a NotSupportedError.
+    if (!SUPPORTED_INIT_DATA_TYPES.includes(initDataType)) {
+      throw new DOMException(
+        `Unsupported init data type: ${initDataType}`,
+        "NotSupportedError"
+      );
+    }
+    // 9. Let sanitized init data be a validated and sanitized version of init data.
+    const keyIds =
+      initDataType === "cenc" ? getCencKeyIds(data) : getKeyIdsFromJson(data);
+    // 10. If the preceding step failed, reject promise with a newly created TypeError.
+    if (keyIds === undefined) {
+      throw new TypeError("The init data is invalid");
+    }
+    // 11. If sanitized init data is empty, reject promise with a NotSupportedError.
+    if (keyIds.length === 0) {
+      throw new DOMException(
+        "The init data does not contain any Clear Key key IDs",
+        "NotSupportedError"
+      );
+    }
+    // 10.9. Let message be a license request for the requested key IDs.
+    // https://w3c.github.io/encrypted-media/#clear-key-request-format
+    const message = new TextEncoder().encode(
+      JSON.stringify({
+        kids: keyIds.map(toBase64Url),
+        type: "temporary"
+      })
+    );
+    // 10.10. Queue a task to run the following steps:
+    //        Set the sessionId attribute to session id.
+    //        Set this object's callable value to true.
+    //        Run the Queue a "message" Event algorithm on the session.
+    this.#sessionId = `${nextSessionId++}`;
+    this.#callable = true;
+    queueTask(() =>
+      this.dispatchEvent(
+        new BabyMediaKeyMessageEvent("message", {
+          messageType: "license-request",
+          message: message.buffer
+        })
+      )
+    );
+  }
+
+  async load(_sessionId: string): Promise<boolean> {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeysession-load
+    // 3. If the result of running the Is persistent session type? algorithm
+    //    on this object's session type is false, return a promise rejected
+    //    with a newly created TypeError.
+    throw new TypeError("Only temporary sessions are supported");
+  }
+
+  async update(response: BufferSource): Promise<void> {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeysession-update
+    // 1. If this object's closing or closed value is true,
+    //    return a promise rejected with an InvalidStateError.
+    if (this.#closed) {
+      throw new DOMException("The session is closed", "InvalidStateError");
+    }
+    // 2. If this object's callable value is false,
+    //    return a promise rejected with an InvalidStateError.
+    if (!this.#callable) {
+      throw new DOMException(
+        "The session has not generated a request",
+        "InvalidStateError"
+      );
+    }
+    // 3. If response is an empty array, return a promise rejected with a newly created TypeError.
+    const data = toUint8Array(response);
+    if (data.byteLength === 0) {
+      throw new TypeError("The response is empty");
+    }
+    // 6.1. If the format of sanitized response is invalid in any way,
+    //      reject promise with a newly created TypeError.
+    // https://w3c.github.io/encrypted-media/#clear-key-license-format
+    const keys = parseJsonWebKeySet(data);
+    if (keys === undefined) {
+      throw new TypeError("The response is not a valid JSON Web Key Set");
+    }
+    // 6.2. Process sanitized response, updating the keys of this session.
+    for (const [keyId, key] of keys) {
+      this.#keys.set(toHex(keyId), key);
+    }
+    // 6.3. Run the Update Key Statuses algorithm on the session.
+    this.#updateKeyStatuses("usable");
+    notifyKeysChanged(this.#mediaKeys);
+  }
+
+  async close(): Promise<void> {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeysession-close
+    // 2. If session's closing or closed value is true, return a resolved promise.
+    if (this.#closed) {
+      return;
+    }
+    // 3. If session's callable value is false, return a promise rejected with an InvalidStateError.
+    if (!this.#callable) {
+      throw new DOMException(
+        "The session has not generated a request",
+        "InvalidStateError"
+      );
+    }
+    // 5.1. Run the Session Closed algorithm on the session.
+    // https://w3c.github.io/encrypted-media/#session-closed
+    // Its key statuses are updated with an empty sequence of keys.
+    this.#closed = true;
+    this.#keys.clear();
+    removeSession(this.#mediaKeys, this);
+    this.#updateKeyStatuses("released");
+    this.#resolveClosed("closed-by-application");
+  }
+
+  async remove(): Promise<void> {
+    // https://w3c.github.io/encrypted-media/#dom-mediakeysession-remove
+    // 1. If this object's closing or closed value is true,
+    //    return a promise rejected with an InvalidStateError.
+    if (this.#closed) {
+      throw new DOMException("The session is closed", "InvalidStateError");
+    }
+    // 2. If this object's callable value is false,
+    //    return a promise rejected with an InvalidStateError.
+    if (!this.#callable) {
+      throw new DOMException(
+        "The session has not generated a request",
+        "InvalidStateError"
+      );
+    }
+    // 4.3. Run the Update Key Statuses algorithm on the session, providing all key IDs
+    //      in the session along with the "released" MediaKeyStatus value for each.
+    // A temporary session has no record of license destruction to send.
+    this.#updateKeyStatuses("released");
+    this.#keys.clear();
+  }
+
+  // Gives all keys of this session the given status.
+  #updateKeyStatuses(status: MediaKeyStatus): void {
+    // https://w3c.github.io/encrypted-media/#update-key-statuses
+    setKeyStatuses(
+      this.#keyStatuses,
+      new Map([...this.#keys.keys()].map((keyId) => [keyId, status]))
+    );
+    // 5. Queue a task to fire a simple event named keystatuseschange at the session.
+    queueTask(() => this.dispatchEvent(new Event("keystatuseschange")));
+  }
+
+  static {
+    getSessionKey = (session, keyId) => session.#keys.get(toHex(keyId));
+  }
+}
+
+export class BabyMediaKeyStatusMap
+  implements Iterable<[ArrayBuffer, MediaKeyStatus]>
+{
+  // The statuses by their hexadecimal key ID.
+  #statuses: Map<string, MediaKeyStatus> = new Map();
+
+  get size(): number {
+    return this.#statuses.size;
+  }
+
+  has(keyId: BufferSource): boolean {
+    return this.#statuses.has(toHex(toUint8Array(keyId)));
+  }
+
+  get(keyId: BufferSource): MediaKeyStatus | undefined {
+    return this.#statuses.get(toHex(toUint8Array(keyId)));
+  }
+
+  *keys(): IterableIterator<ArrayBuffer> {
+    for (const keyId of this.#statuses.keys()) {
+      yield fromHex(keyId).buffer;
+    }
+  }
+
+  *entries(): IterableIterator<[ArrayBuffer, MediaKeyStatus]> {
+    for (const [keyId, status] of this.#statuses) {
+      yield [fromHex(keyId).buffer, status];
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[ArrayBuffer, MediaKeyStatus]> {
+    return this.entries();
+  }
+
+  forEach(
+    callback: (
+      status: MediaKeyStatus,
+      keyId: ArrayBuffer,
+      map: BabyMediaKeyStatusMap
+    ) => void
+  ): void {
+    for (const [keyId, status] of this.entries()) {
+      callback(status, keyId, this);
+    }
+  }
+
+  static {
+    setKeyStatuses = (keyStatuses, statuses) => {
+      keyStatuses.#statuses = statuses;
+    };
+  }
+}
+
+function getCencKeyIds(initData: Uint8Array): Uint8Array[] | undefined {
+  // https://www.w3.org/TR/eme-initdata-cenc/#clear-key
+  // The key IDs come from the version 1 "pssh" boxes of the Common System.
+  const boxes = readChildBoxes(initData);
+  if (boxes.length === 0) {
+    return undefined;
+  }
+  const keyIds: Uint8Array[] = [];
+  for (const box of boxes) {
+    if (box.type !== "pssh" || box.payload.byteLength < 24) {
+      continue;
+    }
+    const view = new DataView(
+      box.payload.buffer,
+      box.payload.byteOffset,
+      box.payload.byteLength
+    );
+    const version = view.getUint8(0);
+    const systemId = toHex(box.payload.subarray(4, 20));
+    if (version === 0 || systemId !== COMMON_SYSTEM_ID) {
+      continue;
+    }
+    const keyIdCount = view.getUint32(20);
+    if (box.payload.byteLength < 24 + keyIdCount * 16) {
+      return undefined;
+    }
+    for (let i = 0; i < keyIdCount; i++) {
+      keyIds.push(box.payload.slice(24 + i * 16, 40 + i * 16));
+    }
+  }
+  return keyIds;
+}
+
+function getKeyIdsFromJson(initData: Uint8Array): Uint8Array[] | undefined {
+  // https://www.w3.org/TR/eme-initdata-keyids/#format
+  try {
+    const { kids } = JSON.parse(new TextDecoder().decode(initData));
+    if (!Array.isArray(kids)) {
+      return undefined;
+    }
+    return kids.map((kid) => fromBase64Url(kid));
+  } catch {
+    return undefined;
+  }
+}
+
+function parseJsonWebKeySet(
+  response: Uint8Array
+): Array<[Uint8Array, Uint8Array]> | undefined {
+  // https://w3c.github.io/encrypted-media/#clear-key-license-format
+  // Only symmetric keys ("oct") are used. The key ID and the key are base64url encoded.
+  try {
+    const { keys } = JSON.parse(new TextDecoder().decode(response));
+    if (!Array.isArray(keys)) {
+      return undefined;
+    }
+    const result: Array<[Uint8Array, Uint8Array]> = [];
+    for (const { kty, kid, k } of keys) {
+      if (kty !== "oct") {
+        continue;
+      }
+      const keyId = fromBase64Url(kid);
+      const key = fromBase64Url(k);
+      // Clear Key uses AES-128.
+      if (keyId.byteLength !== 16 || key.byteLength !== 16) {
+        return undefined;
+      }
+      result.push([keyId, key]);
+    }
+    return result;
+  } catch {
+    return undefined;
+  }
+}
+
+function toBase64Url(data: Uint8Array): string {
+  return btoa(String.fromCharCode(...data))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Throws if the input is not a valid base64url string.
+function fromBase64Url(input: string): Uint8Array {
+  const binary = atob(input.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,563 @@
+import {
+  MediaElementAttachment,
+  MediaReadyState,
+  MediaSourceAttachment
+} from "./attachment";
+import { attachToMediaElement, BabyMediaSource } from "./media-source";
+import { BabyMediaError } from "./media-error";
+import { EventMessage } from "./byte-stream-format";
+import { TimeRange, TimeRanges } from "./time-ranges";
+import {
+  AudioTrackBuffer,
+  DecoderConfig,
+  TrackBuffer,
+  TrackBufferOperation,
+  VideoTrackBuffer
+} from "./track-buffer";
+import {
+  BabyAudioTrack,
+  BabyMediaTrack,
+  BabyVideoTrack,
+  MediaTrackInit,
+  observeTrack
+} from "./track-list";
+
+// A handle to a BabyMediaSource that was constructed in a dedicated worker.
+// Transfer it to the main thread together with its port:
+//   postMessage(mediaSource.handle, [mediaSource.handle.port])
+// and then assign it to BabyVideoElement.srcObject.
+export class BabyMediaSourceHandle {
+  readonly port: MessagePort;
+
+  constructor(port: MessagePort) {
+    this.port = port;
+  }
+}
+
+interface MediaElementState {
+  currentTime: number;
+  playbackRate: number;
+  readyState: MediaReadyState;
+  error: { code: number; message: string } | null;
+}
+
+interface MediaSourceState {
+  buffered: TimeRange[];
+  seekable: TimeRange[];
+  activeVideoTrackBuffer: number | undefined;
+  activeAudioTrackBuffer: number | undefined;
+}
+
+// Messages sent from the media element on the main thread to the worker.
+type MediaElementMessage =
+  | { type: "attach"; state: MediaElementState }
+  | { type: "detach" }
+  | { type: "checkBuffer"; state: MediaElementState }
+  | { type: "updateTrack"; id: number; enabled: boolean };
+
+// Messages sent from the MediaSource in the worker to the main thread.
+type MediaSourceMessage =
+  | { type: "state"; state: MediaSourceState }
+  | {
+      type: "addTrackBuffer";
+      id: number;
+      trackType: "audio" | "video";
+      trackId: number;
+      codecConfig: DecoderConfig;
+    }
+  | {
+      type: "trackBufferOperation";
+      id: number;
+      operation: TrackBufferOperation;
+    }
+  | {
+      type: "addTrack";
+      id: number;
+      trackType: "audio" | "video";
+      init: MediaTrackInit;
+      enabled: boolean;
+    }
+  | { type: "removeTrack"; id: number }
+  | { type: "updateTrack"; id: number; enabled: boolean }
+  | { type: "addEventMessages"; events: EventMessage[] }
+  | {
+      type: "notifyEncrypted";
+      initDataType: string;
+      initData: Uint8Array | null;
+    }
+  | { type: "updateDuration"; newDuration: number }
+  | { type: "updateReadyState"; newReadyState: MediaReadyState }
+  | { type: "notifyProgress" }
+  | { type: "notifyEndOfStream" }
+  | { type: "notifyActiveTracksChanged" }
+  | { type: "mediaSourceFailure"; message: string }
+  | { type: "mediaDataError"; code: number; message: string };
+
+export function createHandle(
+  mediaSource: BabyMediaSource
+): BabyMediaSourceHandle {
+  const channel = new MessageChannel();
+  new RemoteMediaElement(channel.port1, mediaSource);
+  return new BabyMediaSourceHandle(channel.port2);
+}
+
+export function attachToMediaSourceHandle(
+  handle: BabyMediaSourceHandle,
+  mediaElement: MediaElementAttachment
+): MediaSourceAttachment {
+  return new RemoteMediaSource(handle.port, mediaElement);
+}
+
+// Stands in for the media element inside the worker.
+// It mirrors the element's state, and forwards all notifications
+// and track buffer changes to the main thread.
+class RemoteMediaElement implements MediaElementAttachment {
+  readonly #port: MessagePort;
+  readonly #mediaSource: BabyMediaSource;
+  #attachment: MediaSourceAttachment | undefined = undefined;
+  #currentTime: number = 0;
+  #playbackRate: number = 1;
+  #readyState: MediaReadyState = MediaReadyState.HAVE_NOTHING;
+  #error: BabyMediaError | null = null;
+  #trackBufferIds: WeakMap<TrackBuffer, number> = new WeakMap();
+  #nextTrackBufferId: number = 1;
+  readonly #tracks: Map<number, BabyMediaTrack> = new Map();
+  #nextTrackId: number = 1;
+  #stateUpdateScheduled: boolean = false;
+
+  constructor(port: MessagePort, mediaSource: BabyMediaSource) {
+    this.#port = port;
+    this.#mediaSource = mediaSource;
+    this.#port.onmessage = (event: MessageEvent<MediaElementMessage>) =>
+      this.#handleMessage(event.data);
+  }
+
+  get currentTime(): number {
+    return this.#currentTime;
+  }
+
+  get playbackRate(): number {
+    return this.#playbackRate;
+  }
+
+  get readyState(): MediaReadyState {
+    return this.#readyState;
+  }
+
+  get error(): BabyMediaError | null {
+    return this.#error;
+  }
+
+  updateDuration(newDuration: number): void {
+    this.#postMessage({ type: "updateDuration", newDuration });
+  }
+
+  updateReadyState(newReadyState: MediaReadyState): void {
+    // Update our copy right away, so the MediaSource sees the new ready state
+    // before the element on the main thread has received it.
+    this.#readyState = newReadyState;
+    this.#postMessage({ type: "updateReadyState", newReadyState });
+  }
+
+  notifyProgress(): void {
+    this.#postMessage({ type: "notifyProgress" });
+  }
+
+  notifyEndOfStream(): void {
+    this.#postMessage({ type: "notifyEndOfStream" });
+  }
+
+  notifyActiveTracksChanged(): void {
+    this.#postMessage({ type: "notifyActiveTracksChanged" });
+  }
+
+  notifyTrackBufferAdded(trackBuffer: TrackBuffer): void {
+    const id = this.#nextTrackBufferId++;
+    this.#trackBufferIds.set(trackBuffer, id);
+    this.#port.postMessage({
+      type: "addTrackBuffer",
+      id,
+      trackType: trackBuffer.type,
+      trackId: trackBuffer.trackId,
+      codecConfig: trackBuffer.codecConfig
+    } satisfies MediaSourceMessage);
+    trackBuffer.observer = (operation) => {
+      const transfer: Transferable[] = [];
+      if (operation.type === "addSample") {
+        // The sample data may be a view on a much larger buffer,
+        // so copy it before transferring it.
+        const data = operation.sample.data.slice();
+        transfer.push(data.buffer);
+        operation = {
+          ...operation,
+          sample: {
+            data,
+            is_sync: operation.sample.is_sync,
+            encryption: operation.sample.encryption
+          }
+        };
+      }
+      this.#port.postMessage(
+        {
+          type: "trackBufferOperation",
+          id,
+          operation
+        } satisfies MediaSourceMessage,
+        transfer
+      );
+      this.#scheduleStateUpdate();
+    };
+  }
+
+  addTrack(track: BabyMediaTrack): void {
+    // The track lists of the media element contain a mirror of this track.
+    const id = this.#nextTrackId++;
+    this.#tracks.set(id, track);
+    this.#postMessage({
+      type: "addTrack",
+      id,
+      trackType: track instanceof BabyAudioTrack ? "audio" : "video",
+      init: {
+        id: track.id,
+        kind: track.kind,
+        label: track.label,
+        language: track.language
+      },
+      enabled: isTrackEnabled(track)
+    });
+    observeTrack(track, () => {
+      if (this.#tracks.get(id) === track) {
+        this.#postMessage({
+          type: "updateTrack",
+          id,
+          enabled: isTrackEnabled(track)
+        });
+      }
+    });
+  }
+
+  removeTrack(track: BabyMediaTrack): void {
+    for (const [id, otherTrack] of this.#tracks) {
+      if (otherTrack === track) {
+        this.#tracks.delete(id);
+        this.#postMessage({ type: "removeTrack", id });
+      }
+    }
+  }
+
+  addEventMessages(events: EventMessage[]): void {
+    this.#postMessage({ type: "addEventMessages", events });
+  }
+
+  notifyEncrypted(initDataType: string, initData: Uint8Array | null): void {
+    this.#postMessage({ type: "notifyEncrypted", initDataType, initData });
+  }
+
+  mediaSourceFailure(message: string): void {
+    this.#postMessage({ type: "mediaSourceFailure", message });
+  }
+
+  mediaDataError(error: BabyMediaError): void {
+    this.#error = error;
+    this.#postMessage({
+      type: "mediaDataError",
+      code: error.code,
+      message: error.message
+    });
+  }
+
+  #handleMessage(message: MediaElementMessage): void {
+    switch (message.type) {
+      case "attach":
+        this.#updateElementState(message.state);
+        this.#attachment = attachToMediaElement(this.#mediaSource, this);
+        this.#sendState();
+        break;
+      case "detach":
+        this.#attachment?.detach();
+        this.#attachment = undefined;
+        this.#trackBufferIds = new WeakMap();
+        this.#tracks.clear();
+        break;
+      case "checkBuffer":
+        this.#updateElementState(message.state);
+        this.#attachment?.checkBuffer();
+        break;
+      case "updateTrack": {
+        // The track was enabled or selected through its mirror on the main thread.
+        const track = this.#tracks.get(message.id);
+        if (track) {
+          setTrackEnabled(track, message.enabled);
+        }
+        break;
+      }
+    }
+  }
+
+  #updateElementState(state: MediaElementState): void {
+    this.#currentTime = state.currentTime;
+    this.#playbackRate = state.playbackRate;
+    this.#readyState = state.readyState;
+    this.#error =
+      state.error && new BabyMediaError(state.error.code, state.error.message);
+  }
+
+  #postMessage(message: MediaSourceMessage): void {
+    // Make sure the element sees the latest buffered ranges
+    // before it handles the notification.
+    this.#sendState();
+    this.#port.postMessage(message);
+  }
+
+  #scheduleStateUpdate(): void {
+    if (this.#stateUpdateScheduled) {
+      return;
+    }
+    this.#stateUpdateScheduled = true;
+    queueMicrotask(() => {
+      this.#stateUpdateScheduled = false;
+      this.#sendState();
+    });
+  }
+
+  #sendState(): void {
+    const attachment = this.#attachment;
+    if (!attachment) {
+      return;
+    }
+    const activeVideoTrackBuffer = attachment.getActiveVideoTrackBuffer();
+    const activeAudioTrackBuffer = attachment.getActiveAudioTrackBuffer();
+    this.#port.postMessage({
+      type: "state",
+      state: {
+        buffered: toRanges(attachment.buffered),
+        seekable: toRanges(attachment.seekable),
+        activeVideoTrackBuffer:
+          activeVideoTrackBuffer &&
+          this.#trackBufferIds.get(activeVideoTrackBuffer),
+        activeAudioTrackBuffer:
+          activeAudioTrackBuffer &&
+          this.#trackBufferIds.get(activeAudioTrackBuffer)
+      }
+    } satisfies MediaSourceMessage);
+  }
+}
+
+// Stands in for the MediaSource on the main thread.
+// It keeps a copy of the worker's track buffers, so the element
+// can decode their coded frames without waiting for the worker.
+class RemoteMediaSource implements MediaSourceAttachment {
+  readonly #port: MessagePort;
+  readonly #mediaElement: MediaElementAttachment;
+  readonly #trackBuffers: Map<number, TrackBuffer> = new Map();
+  readonly #tracks: Map<number, BabyMediaTrack> = new Map();
+  #buffered: TimeRanges = new TimeRanges([]);
+  #seekable: TimeRanges = new TimeRanges([]);
+  #activeVideoTrackBuffer: VideoTrackBuffer | undefined = undefined;
+  #activeAudioTrackBuffer: AudioTrackBuffer | undefined = undefined;
+
+  constructor(port: MessagePort, mediaElement: MediaElementAttachment) {
+    this.#port = port;
+    this.#mediaElement = mediaElement;
+    this.#port.onmessage = (event: MessageEvent<MediaSourceMessage>) =>
+      this.#handleMessage(event.data);
+    this.#postMessage({ type: "attach", state: this.#getElementState() });
+  }
+
+  get buffered(): TimeRanges {
+    return this.#buffered;
+  }
+
+  get seekable(): TimeRanges {
+    return this.#seekable;
+  }
+
+  getActiveVideoTrackBuffer(): VideoTrackBuffer | undefined {
+    return this.#activeVideoTrackBuffer;
+  }
+
+  getActiveAudioTrackBuffer(): AudioTrackBuffer | undefined {
+    return this.#activeAudioTrackBuffer;
+  }
+
+  checkBuffer(): void {
+    this.#postMessage({ type: "checkBuffer", state: this.#getElementState() });
+  }
+
+  detach(): void {
+    this.#postMessage({ type: "detach" });
+    this.#port.onmessage = null;
+    this.#trackBuffers.clear();
+    this.#tracks.clear();
+    this.#buffered = new TimeRanges([]);
+    this.#seekable = new TimeRanges([]);
+    this.#activeVideoTrackBuffer = undefined;
+    this.#activeAudioTrackBuffer = undefined;
+  }
+
+  #handleMessage(message: MediaSourceMessage): void {
+    switch (message.type) {
+      case "state":
+        this.#updateState(message.state);
+        break;
+      case "addTrackBuffer":
+        this.#trackBuffers.set(
+          message.id,
+          message.trackType === "audio"
+            ? new AudioTrackBuffer(
+                message.trackId,
+                message.codecConfig as AudioDecoderConfig
+              )
+            : new VideoTrackBuffer(
+                message.trackId,
+                message.codecConfig as VideoDecoderConfig
+              )
+        );
+        break;
+      case "addTrack":
+        this.#addTrack(
+          message.id,
+          message.trackType,
+          message.init,
+          message.enabled
+        );
+        break;
+      case "removeTrack": {
+        const track = this.#tracks.get(message.id);
+        if (track) {
+          this.#tracks.delete(message.id);
+          this.#mediaElement.removeTrack(track);
+        }
+        break;
+      }
+      case "updateTrack": {
+        const track = this.#tracks.get(message.id);
+        if (track) {
+          setTrackEnabled(track, message.enabled);
+        }
+        break;
+      }
+      case "addEventMessages":
+        this.#mediaElement.addEventMessages(message.events);
+        break;
+      case "notifyEncrypted":
+        this.#mediaElement.notifyEncrypted(
+          message.initDataType,
+          message.initData
+        );
+        break;
+      case "trackBufferOperation":
+        this.#trackBuffers.get(message.id)?.applyOperation(message.operation);
+        break;
+      case "updateDuration":
+        this.#mediaElement.updateDuration(message.newDuration);
+        break;
+      case "updateReadyState":
+        this.#mediaElement.updateReadyState(message.newReadyState);
+        break;
+      case "notifyProgress":
+        this.#mediaElement.notifyProgress();
+        break;
+      case "notifyEndOfStream":
+        this.#mediaElement.notifyEndOfStream();
+        break;
+      case "notifyActiveTracksChanged":
+        this.#mediaElement.notifyActiveTracksChanged();
+        break;
+      case "mediaSourceFailure":
+        this.#mediaElement.mediaSourceFailure(message.message);
+        break;
+      case "mediaDataError":
+        this.#mediaElement.mediaDataError(
+          new BabyMediaError(message.code, message.message)
+        );
+        break;
+    }
+  }
+
+  #addTrack(
+    id: number,
+    trackType: "audio" | "video",
+    init: MediaTrackInit,
+    enabled: boolean
+  ): void {
+    const track =
+      trackType === "audio"
+        ? new BabyAudioTrack(init)
+        : new BabyVideoTrack(init);
+    setTrackEnabled(track, enabled);
+    this.#tracks.set(id, track);
+    // Let the worker know when the track is enabled or selected on the main thread.
+    observeTrack(track, () => {
+      if (this.#tracks.get(id) === track) {
+        this.#postMessage({
+          type: "updateTrack",
+          id,
+          enabled: isTrackEnabled(track)
+        });
+      }
+    });
+    this.#mediaElement.addTrack(track);
+  }
+
+  #updateState(state: MediaSourceState): void {
+    this.#buffered = new TimeRanges(state.buffered);
+    this.#seekable = new TimeRanges(state.seekable);
+    const activeVideoTrackBuffer = this.#getTrackBuffer(
+      state.activeVideoTrackBuffer
+    );
+    const activeAudioTrackBuffer = this.#getTrackBuffer(
+      state.activeAudioTrackBuffer
+    );
+    this.#activeVideoTrackBuffer =
+      activeVideoTrackBuffer instanceof VideoTrackBuffer
+        ? activeVideoTrackBuffer
+        : undefined;
+    this.#activeAudioTrackBuffer =
+      activeAudioTrackBuffer instanceof AudioTrackBuffer
+        ? activeAudioTrackBuffer
+        : undefined;
+  }
+
+  #getTrackBuffer(id: number | undefined): TrackBuffer | undefined {
+    return id !== undefined ? this.#trackBuffers.get(id) : undefined;
+  }
+
+  #getElementState(): MediaElementState {
+    const error = this.#mediaElement.error;
+    return {
+      currentTime: this.#mediaElement.currentTime,
+      playbackRate: this.#mediaElement.playbackRate,
+      readyState: this.#mediaElement.readyState,
+      error: error && { code: error.code, message: error.message }
+    };
+  }
+
+  #postMessage(message: MediaElementMessage): void {
+    this.#port.postMessage(message);
+  }
+}
+
+// Whether an audio track is enabled, or a video track is selected.
+function isTrackEnabled(track: BabyMediaTrack): boolean {
+  if (track instanceof BabyAudioTrack) {
+    return track.enabled;
+  }
+  return track instanceof BabyVideoTrack && track.selected;
+}
+
+function setTrackEnabled(track: BabyMediaTrack, enabled: boolean): void {
+  if (track instanceof BabyAudioTrack) {
+    track.enabled = enabled;
+  } else if (track instanceof BabyVideoTrack) {
+    track.selected = enabled;
+  }
+}
+
+function toRanges(timeRanges: TimeRanges): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  for (let i = 0; i < timeRanges.length; i++) {
+    ranges.push([timeRanges.start(i), timeRanges.end(i)]);
+  }
+  return ranges;
+}
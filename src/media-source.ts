@@ -1,26 +1,36 @@
 import {
+  abortBufferAppend,
   BabySourceBuffer,
+  destroySourceBuffer,
+  flushSourceBuffer,
   getAudioTrackBuffer,
   getVideoTrackBuffer
 } from "./source-buffer";
 import {
-  BabyVideoElement,
+  addSourceBufferToList,
+  BabySourceBufferList,
+  getSourceBuffers,
+  removeSourceBufferFromList
+} from "./source-buffer-list";
+import {
+  MediaElementAttachment,
   MediaReadyState,
-  notifyEndOfStream,
-  updateDuration,
-  updateReadyState
-} from "./video-element";
+  MediaSourceAttachment
+} from "./attachment";
+import { BabyMediaError } from "./media-error";
+import { BabyMediaSourceHandle, createHandle } from "./media-source-handle";
 import { queueTask } from "./util";
 import { AudioTrackBuffer, VideoTrackBuffer } from "./track-buffer";
+import { removeTrackFromList } from "./track-list";
 import { setEndTimeOnLastRange, TimeRanges } from "./time-ranges";
+import { isTypeSupported, probeCodecs } from "./codec-support";
 
 export type MediaSourceReadyState = "closed" | "ended" | "open";
 
 export let attachToMediaElement: (
   mediaSource: BabyMediaSource,
-  mediaElement: BabyVideoElement
-) => void;
-export let detachFromMediaElement: (mediaSource: BabyMediaSource) => void;
+  mediaElement: MediaElementAttachment
+) => MediaSourceAttachment;
 export let durationChange: (
   mediaSource: BabyMediaSource,
   newDuration: number
@@ -31,22 +41,27 @@ export let endOfStream: (
 ) => void;
 export let getMediaElement: (
   mediaSource: BabyMediaSource
-) => BabyVideoElement | undefined;
+) => MediaElementAttachment | undefined;
 export let getBuffered: (mediaSource: BabyMediaSource) => TimeRanges;
-export let getActiveVideoTrackBuffer: (
-  mediaSource: BabyMediaSource
-) => VideoTrackBuffer | undefined;
-export let getActiveAudioTrackBuffer: (
-  mediaSource: BabyMediaSource
-) => AudioTrackBuffer | undefined;
 export let openIfEnded: (mediaSource: BabyMediaSource) => void;
-export let checkBuffer: (mediaSource: BabyMediaSource) => void;
+export let activateSourceBuffer: (
+  mediaSource: BabyMediaSource,
+  sourceBuffer: BabySourceBuffer
+) => void;
+export let trackStateChanged: (
+  mediaSource: BabyMediaSource,
+  sourceBuffer: BabySourceBuffer
+) => void;
 
 export class BabyMediaSource extends EventTarget {
   #duration: number = NaN;
-  #mediaElement: BabyVideoElement | undefined;
+  #mediaElement: MediaElementAttachment | undefined;
+  #handle: BabyMediaSourceHandle | undefined;
   #readyState: MediaSourceReadyState = "closed";
-  #sourceBuffers: BabySourceBuffer[] = [];
+  readonly #sourceBuffers: BabySourceBufferList = new BabySourceBufferList();
+  readonly #activeSourceBuffers: BabySourceBufferList =
+    new BabySourceBufferList();
+  #liveSeekableRange: TimeRanges = new TimeRanges([]);
 
   get duration(): number {
     // https://w3c.github.io/media-source/#dom-mediasource-duration
@@ -70,7 +85,11 @@ export class BabyMediaSource extends EventTarget {
     }
     // 3. If the updating attribute equals true on any SourceBuffer in sourceBuffers,
     //    then throw an InvalidStateError exception and abort these steps.
-    if (this.#sourceBuffers.some((sourceBuffer) => sourceBuffer.updating)) {
+    if (
+      getSourceBuffers(this.#sourceBuffers).some(
+        (sourceBuffer) => sourceBuffer.updating
+      )
+    ) {
       throw new DOMException(
         "No source buffer must be updating",
         "InvalidStateError"
@@ -85,18 +104,32 @@ export class BabyMediaSource extends EventTarget {
     return this.#readyState;
   }
 
-  get sourceBuffers(): readonly BabySourceBuffer[] {
+  get sourceBuffers(): BabySourceBufferList {
     return this.#sourceBuffers;
   }
 
+  get activeSourceBuffers(): BabySourceBufferList {
+    return this.#activeSourceBuffers;
+  }
+
+  // Support for a codec is only known once its decoder has been probed, which is asynchronous.
+  // Until then, isTypeSupported() assumes that a valid codec string is supported.
   static isTypeSupported(type: string): boolean {
-    // https://w3c.github.io/media-source/#dom-mediasource-istypesupported
-    return type.startsWith("audio/mp4") || type.startsWith("video/mp4");
+    return isTypeSupported(type);
+  }
+
+  // Probes the decoders for the codecs of the given MIME types, so that isTypeSupported()
+  // and addSourceBuffer() reject the unsupported ones afterwards.
+  static probeCodecs(types: Iterable<string>): Promise<void> {
+    return probeCodecs(types);
   }
 
   addSourceBuffer(type: string): BabySourceBuffer {
     // https://w3c.github.io/media-source/#dom-mediasource-addsourcebuffer
     // 1. If type is an empty string then throw a TypeError exception and abort these steps.
+    if (type === "") {
+      throw new TypeError("Type must not be empty");
+    }
     // 2. If type contains a MIME type that is not supported or contains a MIME type that is not supported
     //    with the types specified for the other SourceBuffer objects in sourceBuffers,
     //    then throw a NotSupportedError exception and abort these steps.
@@ -114,14 +147,72 @@ export class BabyMediaSource extends EventTarget {
       throw new DOMException("Ready state must be open", "NotSupportedError");
     }
     // 5. Create a new SourceBuffer object and associated resources.
-    const sourceBuffer = new BabySourceBuffer(this);
-    // 6 and 7: Ignore.
+    const sourceBuffer = this.createSourceBuffer(type);
+    // 6 and 7: Handled by the SourceBuffer constructor.
     // 8. Add the new object to sourceBuffers and queue a task to fire an event named addsourcebuffer at sourceBuffers.
-    this.#sourceBuffers.push(sourceBuffer);
+    addSourceBufferToList(this.#sourceBuffers, sourceBuffer);
     // 9. Return the new object.
     return sourceBuffer;
   }
 
+  removeSourceBuffer(sourceBuffer: BabySourceBuffer): void {
+    // https://w3c.github.io/media-source/#dom-mediasource-removesourcebuffer
+    // 1. If sourceBuffer specifies an object that is not in sourceBuffers
+    //    then throw a NotFoundError exception and abort these steps.
+    if (!getSourceBuffers(this.#sourceBuffers).includes(sourceBuffer)) {
+      throw new DOMException("Source buffer not found", "NotFoundError");
+    }
+    // 2. If the sourceBuffer.updating attribute equals true, then run the following steps:
+    // 2.1. Abort the buffer append algorithm if it is running.
+    // 2.2. Set the sourceBuffer.updating attribute to false.
+    // 2.3. Queue a task to fire an event named abort at sourceBuffer.
+    // 2.4. Queue a task to fire an event named updateend at sourceBuffer.
+    abortBufferAppend(sourceBuffer);
+    const activeVideoTrackBuffer = this.#getActiveVideoTrackBuffer();
+    const activeAudioTrackBuffer = this.#getActiveAudioTrackBuffer();
+    // 3. Let SourceBuffer audioTracks list equal the AudioTrackList object
+    //    returned by sourceBuffer.audioTracks.
+    // 4. If the SourceBuffer audioTracks list is not empty, then run the following steps:
+    // 4.2. For each AudioTrack object in the SourceBuffer audioTracks list, run the following steps:
+    for (const audioTrack of [...sourceBuffer.audioTracks]) {
+      // 4.2.2. Remove the AudioTrack object from the HTMLMediaElement audioTracks list.
+      // 4.2.3. Queue a task to fire an event named removetrack at the HTMLMediaElement audioTracks list.
+      this.#mediaElement?.removeTrack(audioTrack);
+      // 4.2.4. Remove the AudioTrack object from the SourceBuffer audioTracks list.
+      // 4.2.5. Queue a task to fire an event named removetrack at the SourceBuffer audioTracks list.
+      removeTrackFromList(sourceBuffer.audioTracks, audioTrack);
+    }
+    // 5. Let SourceBuffer videoTracks list equal the VideoTrackList object
+    //    returned by sourceBuffer.videoTracks.
+    // 6. If the SourceBuffer videoTracks list is not empty, then run the following steps:
+    // 6.2. For each VideoTrack object in the SourceBuffer videoTracks list, run the following steps:
+    for (const videoTrack of [...sourceBuffer.videoTracks]) {
+      // 6.2.2. Remove the VideoTrack object from the HTMLMediaElement videoTracks list.
+      // 6.2.3. Queue a task to fire an event named removetrack at the HTMLMediaElement videoTracks list.
+      this.#mediaElement?.removeTrack(videoTrack);
+      // 6.2.4. Remove the VideoTrack object from the SourceBuffer videoTracks list.
+      // 6.2.5. Queue a task to fire an event named removetrack at the SourceBuffer videoTracks list.
+      removeTrackFromList(sourceBuffer.videoTracks, videoTrack);
+    }
+    // 7. (Text tracks are not supported.)
+    // 8. If sourceBuffer is in activeSourceBuffers, then remove sourceBuffer from activeSourceBuffers
+    //    and queue a task to fire an event named removesourcebuffer at the SourceBufferList
+    //    returned by activeSourceBuffers.
+    removeSourceBufferFromList(this.#activeSourceBuffers, sourceBuffer);
+    // 9. Remove sourceBuffer from sourceBuffers and queue a task to fire an event named removesourcebuffer
+    //    at the SourceBufferList returned by sourceBuffers.
+    removeSourceBufferFromList(this.#sourceBuffers, sourceBuffer);
+    // 10. Destroy all resources for sourceBuffer.
+    destroySourceBuffer(sourceBuffer);
+    if (
+      this.#mediaElement !== undefined &&
+      (activeVideoTrackBuffer !== this.#getActiveVideoTrackBuffer() ||
+        activeAudioTrackBuffer !== this.#getActiveAudioTrackBuffer())
+    ) {
+      this.#mediaElement.notifyActiveTracksChanged();
+    }
+  }
+
   endOfStream(error?: "network" | "decode"): void {
     // https://w3c.github.io/media-source/#dom-mediasource-endofstream
     // 1. If the readyState attribute is not "open"
@@ -131,7 +222,11 @@ export class BabyMediaSource extends EventTarget {
     }
     // 2. If the updating attribute equals true on any SourceBuffer in sourceBuffers,
     //    then throw an InvalidStateError exception and abort these steps.
-    if (this.#sourceBuffers.some((sourceBuffer) => sourceBuffer.updating)) {
+    if (
+      getSourceBuffers(this.#sourceBuffers).some(
+        (sourceBuffer) => sourceBuffer.updating
+      )
+    ) {
       throw new DOMException(
         "No source buffer must be updating",
         "InvalidStateError"
@@ -141,30 +236,110 @@ export class BabyMediaSource extends EventTarget {
     this.#endOfStream(error);
   }
 
-  #attachToMediaElement(mediaElement: BabyVideoElement): void {
+  setLiveSeekableRange(start: number, end: number): void {
+    // https://w3c.github.io/media-source/#dom-mediasource-setliveseekablerange
+    start = Number(start);
+    end = Number(end);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      throw new TypeError("Start and end must be finite numbers");
+    }
+    // 1. If the readyState attribute is not "open" then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (this.#readyState !== "open") {
+      throw new DOMException("Ready state must be open", "InvalidStateError");
+    }
+    // 2. If start is negative or greater than end, then throw a TypeError exception
+    //    and abort these steps.
+    if (start < 0 || start > end) {
+      throw new TypeError(
+        "Start must be non-negative and not greater than end"
+      );
+    }
+    // 3. Set [[live seekable range]] to be a new normalized TimeRanges object
+    //    containing a single range whose start position is start and end position is end.
+    this.#liveSeekableRange = new TimeRanges([[start, end]]);
+  }
+
+  clearLiveSeekableRange(): void {
+    // https://w3c.github.io/media-source/#dom-mediasource-clearliveseekablerange
+    // 1. If the readyState attribute is not "open" then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (this.#readyState !== "open") {
+      throw new DOMException("Ready state must be open", "InvalidStateError");
+    }
+    // 2. If [[live seekable range]] contains a range, then set [[live seekable range]]
+    //    to be a new empty TimeRanges object.
+    if (this.#liveSeekableRange.length !== 0) {
+      this.#liveSeekableRange = new TimeRanges([]);
+    }
+  }
+
+  get handle(): BabyMediaSourceHandle {
+    // https://w3c.github.io/media-source/#dom-mediasource-handle
+    // 1. If the implementation does not support creating a handle for this MediaSource,
+    //    then throw a NotSupportedError exception and abort these steps.
+    //    (A handle can only be created for a MediaSource in a dedicated worker.)
+    if (typeof window !== "undefined") {
+      throw new DOMException(
+        "A handle can only be created in a worker",
+        "NotSupportedError"
+      );
+    }
+    // 2. If the handle for this MediaSource object has not yet been created,
+    //    then run the following steps:
+    // 2.1. Let created handle be the result of creating a new MediaSourceHandle object
+    //      and associated resources, linked internally to this MediaSource.
+    // 2.2. Update the attribute to be created handle.
+    this.#handle ??= createHandle(this);
+    // 3. Return the MediaSourceHandle object that is this attribute's value.
+    return this.#handle;
+  }
+
+  #attachToMediaElement(
+    mediaElement: MediaElementAttachment
+  ): MediaSourceAttachment {
     // https://w3c.github.io/media-source/#mediasource-attach
     if (this.#readyState !== "closed") {
       throw new DOMException("Ready state must be closed", "InvalidStateError");
     }
-    // Otherwise, the MediaSource was constructed in a Window:
     this.#mediaElement = mediaElement;
     // 4. Set the readyState attribute to "open".
     this.#readyState = "open";
     // 5. Queue a task to fire an event named sourceopen at the MediaSource.
     queueTask(() => this.dispatchEvent(new Event("sourceopen")));
+    this.onMonitorBuffer();
+    const mediaSource = this;
+    return {
+      get buffered() {
+        return mediaSource.#getBuffered();
+      },
+      get seekable() {
+        return mediaSource.#getSeekable();
+      },
+      getActiveVideoTrackBuffer: () => this.#getActiveVideoTrackBuffer(),
+      getActiveAudioTrackBuffer: () => this.#getActiveAudioTrackBuffer(),
+      checkBuffer: () => this.#checkBuffer(),
+      detach: () => this.#detachFromMediaElement()
+    };
   }
 
   #detachFromMediaElement(): void {
     // https://w3c.github.io/media-source/#mediasource-detach
-    // Otherwise, the MediaSource was constructed in a Window:
     this.#mediaElement = undefined;
     // 3. Set the readyState attribute to "closed".
     this.#readyState = "closed";
     // 4. Update duration to NaN.
     this.#duration = NaN;
     // 5. Remove all the SourceBuffer objects from activeSourceBuffers.
+    // 6. Queue a task to fire an event named removesourcebuffer at activeSourceBuffers.
+    for (const sourceBuffer of [...this.#activeSourceBuffers]) {
+      removeSourceBufferFromList(this.#activeSourceBuffers, sourceBuffer);
+    }
     // 7. Remove all the SourceBuffer objects from sourceBuffers.
-    this.#sourceBuffers.length = 0;
+    // 8. Queue a task to fire an event named removesourcebuffer at sourceBuffers.
+    for (const sourceBuffer of [...this.#sourceBuffers]) {
+      removeSourceBufferFromList(this.#sourceBuffers, sourceBuffer);
+    }
     // 9. Queue a task to fire an event named sourceclose at the MediaSource.
     queueTask(() => this.dispatchEvent(new Event("sourceclose")));
   }
@@ -179,7 +354,7 @@ export class BabyMediaSource extends EventTarget {
     this.#duration = newDuration;
     // 6.1. Update the media element's duration to new duration.
     // 6.1. Run the HTMLMediaElement duration change algorithm.
-    updateDuration(this.#mediaElement!, newDuration);
+    this.#mediaElement!.updateDuration(newDuration);
   }
 
   #endOfStream(error?: "network" | "decode") {
@@ -190,21 +365,62 @@ export class BabyMediaSource extends EventTarget {
     queueTask(() => this.dispatchEvent(new Event("sourceended")));
     // 3. If error is not set:
     if (!error) {
+      // No more data will be appended, so the parsers must not hold back any coded frames.
+      for (const sourceBuffer of getSourceBuffers(this.#sourceBuffers)) {
+        flushSourceBuffer(sourceBuffer);
+      }
       // 3.1. Run the duration change algorithm with new duration set to
       //      the largest track buffer ranges end time across all the track buffers
       //      across all SourceBuffer objects in sourceBuffers.
       const largestEndTime = Math.max(
-        ...this.#sourceBuffers.map((sourceBuffer) =>
+        ...getSourceBuffers(this.#sourceBuffers).map((sourceBuffer) =>
           sourceBuffer.buffered.end(sourceBuffer.buffered.length - 1)
         )
       );
       this.#durationChange(largestEndTime);
       // 3.2. Notify the media element that it now has all of the media data.
-      notifyEndOfStream(this.#mediaElement!);
+      this.#mediaElement!.notifyEndOfStream();
     } else if (error === "network") {
-      // TODO
+      // 4. If error is set to "network"
+      const mediaElement = this.#mediaElement!;
+      if (mediaElement.readyState === MediaReadyState.HAVE_NOTHING) {
+        // If the HTMLMediaElement.readyState attribute equals HAVE_NOTHING
+        // Run the "If the media data cannot be fetched at all, due to network errors,
+        // causing the user agent to give up trying to fetch the resource" steps
+        // of the resource fetch algorithm's media data processing steps list.
+        mediaElement.mediaSourceFailure("Media data could not be fetched");
+      } else {
+        // If the HTMLMediaElement.readyState attribute is greater than HAVE_NOTHING
+        // Run the "If the connection is interrupted after some media data has been received,
+        // causing the user agent to give up trying to fetch the resource" steps
+        // of the resource fetch algorithm's media data processing steps list.
+        mediaElement.mediaDataError(
+          new BabyMediaError(
+            BabyMediaError.MEDIA_ERR_NETWORK,
+            "Connection was interrupted"
+          )
+        );
+      }
     } else if (error === "decode") {
-      // TODO
+      // 4. If error is set to "decode"
+      const mediaElement = this.#mediaElement!;
+      if (mediaElement.readyState === MediaReadyState.HAVE_NOTHING) {
+        // If the HTMLMediaElement.readyState attribute equals HAVE_NOTHING
+        // Run the "If the media data can be fetched but is found by inspection to be
+        // in an unsupported format, or can otherwise not be rendered at all" steps
+        // of the resource fetch algorithm's media data processing steps list.
+        mediaElement.mediaSourceFailure("Media data is not supported");
+      } else {
+        // If the HTMLMediaElement.readyState attribute is greater than HAVE_NOTHING
+        // Run the media data is corrupted steps of the resource fetch algorithm's
+        // media data processing steps list.
+        mediaElement.mediaDataError(
+          new BabyMediaError(
+            BabyMediaError.MEDIA_ERR_DECODE,
+            "Media data is corrupted"
+          )
+        );
+      }
     }
   }
 
@@ -219,8 +435,38 @@ export class BabyMediaSource extends EventTarget {
     }
   }
 
+  #activateSourceBuffer(sourceBuffer: BabySourceBuffer): void {
+    if (!getSourceBuffers(this.#activeSourceBuffers).includes(sourceBuffer)) {
+      addSourceBufferToList(this.#activeSourceBuffers, sourceBuffer);
+    }
+  }
+
+  #trackStateChanged(sourceBuffer: BabySourceBuffer): void {
+    // https://w3c.github.io/media-source/#active-source-buffer-changes
+    const isActive = getSourceBuffers(this.#activeSourceBuffers).includes(
+      sourceBuffer
+    );
+    const hasActiveTracks =
+      [...sourceBuffer.audioTracks].some((track) => track.enabled) ||
+      [...sourceBuffer.videoTracks].some((track) => track.selected);
+    if (!isActive && hasActiveTracks) {
+      // If a track becomes enabled or selected and the SourceBuffer associated with this track
+      // is not already in activeSourceBuffers, then add the SourceBuffer to activeSourceBuffers
+      // and queue a task to fire an event named addsourcebuffer at activeSourceBuffers.
+      addSourceBufferToList(this.#activeSourceBuffers, sourceBuffer);
+    } else if (isActive && !hasActiveTracks) {
+      // If a track becomes disabled or unselected and the SourceBuffer associated with this track
+      // is not associated with any other enabled or selected track, then remove the SourceBuffer
+      // from activeSourceBuffers and queue a task to fire an event named removesourcebuffer
+      // at activeSourceBuffers.
+      removeSourceBufferFromList(this.#activeSourceBuffers, sourceBuffer);
+    }
+    // Switch the media element over to the newly enabled or selected tracks.
+    this.#mediaElement?.notifyActiveTracksChanged();
+  }
+
   #getActiveVideoTrackBuffer(): VideoTrackBuffer | undefined {
-    for (const sourceBuffer of this.#sourceBuffers) {
+    for (const sourceBuffer of this.#activeSourceBuffers) {
       const videoTrackBuffer = getVideoTrackBuffer(sourceBuffer);
       if (videoTrackBuffer) {
         return videoTrackBuffer;
@@ -230,7 +476,7 @@ export class BabyMediaSource extends EventTarget {
   }
 
   #getActiveAudioTrackBuffer(): AudioTrackBuffer | undefined {
-    for (const sourceBuffer of this.#sourceBuffers) {
+    for (const sourceBuffer of this.#activeSourceBuffers) {
       const audioTrackBuffer = getAudioTrackBuffer(sourceBuffer);
       if (audioTrackBuffer) {
         return audioTrackBuffer;
@@ -244,9 +490,9 @@ export class BabyMediaSource extends EventTarget {
     // 2.1. Let recent intersection ranges equal an empty TimeRanges object.
     let intersectionRanges = new TimeRanges([]);
     // 2.2. If activeSourceBuffers.length does not equal 0 then run the following steps:
-    if (this.#sourceBuffers.length !== 0) {
+    if (this.#activeSourceBuffers.length !== 0) {
       // 2.2.1. Let active ranges be the ranges returned by buffered for each SourceBuffer object in activeSourceBuffers.
-      const activeRanges = this.#sourceBuffers.map(
+      const activeRanges = getSourceBuffers(this.#activeSourceBuffers).map(
         (sourceBuffer) => sourceBuffer.buffered
       );
       // 2.2.2. Let highest end time be the largest range end time in the active ranges.
@@ -268,7 +514,54 @@ export class BabyMediaSource extends EventTarget {
     return intersectionRanges;
   }
 
+  #getSeekable(): TimeRanges {
+    // https://w3c.github.io/media-source/#htmlmediaelement-extensions-seekable
+    // If duration equals NaN:
+    if (Number.isNaN(this.#duration)) {
+      // Return an empty TimeRanges object.
+      return new TimeRanges([]);
+    }
+    // If duration equals positive Infinity:
+    if (this.#duration === Infinity) {
+      const buffered = this.#getBuffered();
+      // 1. If live seekable range is not empty:
+      if (this.#liveSeekableRange.length !== 0) {
+        // 1.1. Let union ranges be the union of live seekable range and the HTMLMediaElement.buffered attribute.
+        const unionRanges = this.#liveSeekableRange.union(buffered);
+        // 1.2. Return a single range with a start time equal to the earliest start time in union ranges
+        //      and an end time equal to the highest end time in union ranges and abort these steps.
+        return new TimeRanges([
+          [unionRanges.start(0), unionRanges.end(unionRanges.length - 1)]
+        ]);
+      }
+      // 2. If the HTMLMediaElement.buffered attribute returns an empty TimeRanges object,
+      //    then return an empty TimeRanges object and abort these steps.
+      if (buffered.length === 0) {
+        return new TimeRanges([]);
+      }
+      // 3. Return a single range with a start time of 0 and an end time equal to
+      //    the highest end time reported by the HTMLMediaElement.buffered attribute.
+      return new TimeRanges([[0, getHighestEndTime(buffered)]]);
+    }
+    // Otherwise:
+    // Return a single range with a start time of 0 and an end time equal to duration.
+    return new TimeRanges([[0, this.#duration]]);
+  }
+
+  protected createSourceBuffer(type: string): BabySourceBuffer {
+    return new BabySourceBuffer(this, type);
+  }
+
+  // Runs after the buffer monitoring algorithm, and right after attaching.
+  // Subclasses can override this to add their own monitoring steps.
+  protected onMonitorBuffer(): void {}
+
   #checkBuffer(): void {
+    this.#monitorBuffer();
+    this.onMonitorBuffer();
+  }
+
+  #monitorBuffer(): void {
     // https://w3c.github.io/media-source/#buffer-monitoring
     const mediaElement = this.#mediaElement!;
     const readyState = mediaElement.readyState;
@@ -285,7 +578,7 @@ export class BabyMediaSource extends EventTarget {
     // If HTMLMediaElement.buffered does not contain a TimeRanges for the current playback position:
     if (currentRange === undefined) {
       // Set the HTMLMediaElement.readyState attribute to HAVE_METADATA.
-      updateReadyState(mediaElement, MediaReadyState.HAVE_METADATA);
+      mediaElement.updateReadyState(MediaReadyState.HAVE_METADATA);
       // Abort these steps.
       return;
     }
@@ -294,7 +587,7 @@ export class BabyMediaSource extends EventTarget {
     if (this.#readyState === "ended" && currentRange[1] === this.#duration) {
       // Set the HTMLMediaElement.readyState attribute to HAVE_ENOUGH_DATA.
       // Playback may resume at this point if it was previously suspended by a transition to HAVE_CURRENT_DATA.
-      updateReadyState(mediaElement, MediaReadyState.HAVE_ENOUGH_DATA);
+      mediaElement.updateReadyState(MediaReadyState.HAVE_ENOUGH_DATA);
       // Abort these steps.
       return;
     }
@@ -303,7 +596,7 @@ export class BabyMediaSource extends EventTarget {
     if (hasSomeBuffer(buffered, currentTime, duration, playbackRate)) {
       // Set the HTMLMediaElement.readyState attribute to HAVE_FUTURE_DATA.
       // Playback may resume at this point if it was previously suspended by a transition to HAVE_CURRENT_DATA.
-      updateReadyState(mediaElement, MediaReadyState.HAVE_FUTURE_DATA);
+      mediaElement.updateReadyState(MediaReadyState.HAVE_FUTURE_DATA);
       // Abort these steps.
       return;
     }
@@ -312,7 +605,7 @@ export class BabyMediaSource extends EventTarget {
     if (buffered.containsRangeEndingAt(currentTime)) {
       // Set the HTMLMediaElement.readyState attribute to HAVE_CURRENT_DATA.
       // Playback is suspended at this point since the media element doesn't have enough data to advance the media timeline.
-      updateReadyState(mediaElement, MediaReadyState.HAVE_CURRENT_DATA);
+      mediaElement.updateReadyState(MediaReadyState.HAVE_CURRENT_DATA);
       // Abort these steps.
       return;
     }
@@ -321,19 +614,16 @@ export class BabyMediaSource extends EventTarget {
   static {
     attachToMediaElement = (mediaSource, mediaElement) =>
       mediaSource.#attachToMediaElement(mediaElement);
-    detachFromMediaElement = (mediaSource) =>
-      mediaSource.#detachFromMediaElement();
     durationChange = (mediaSource, newDuration) =>
       mediaSource.#durationChange(newDuration);
     endOfStream = (mediaSource, error) => mediaSource.#endOfStream(error);
     getMediaElement = (mediaSource) => mediaSource.#mediaElement;
     getBuffered = (mediaSource) => mediaSource.#getBuffered();
     openIfEnded = (mediaSource) => mediaSource.#openIfEnded();
-    getActiveVideoTrackBuffer = (mediaSource) =>
-      mediaSource.#getActiveVideoTrackBuffer();
-    getActiveAudioTrackBuffer = (mediaSource) =>
-      mediaSource.#getActiveAudioTrackBuffer();
-    checkBuffer = (mediaSource) => mediaSource.#checkBuffer();
+    activateSourceBuffer = (mediaSource, sourceBuffer) =>
+      mediaSource.#activateSourceBuffer(sourceBuffer);
+    trackStateChanged = (mediaSource, sourceBuffer) =>
+      mediaSource.#trackStateChanged(sourceBuffer);
   }
 }
 
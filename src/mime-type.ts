@@ -0,0 +1,92 @@
+export interface MimeType {
+  // The type and subtype in lowercase, e.g. "video/mp4".
+  essence: string;
+  parameters: Map<string, string>;
+}
+
+// https://mimesniff.spec.whatwg.org/#http-token-code-point
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9a-z]+$/i;
+
+// Parses a MIME type string, such as 'video/mp4; codecs="avc1.64001f"'.
+// Returns undefined if the string is not a valid MIME type.
+export function parseMimeType(input: string): MimeType | undefined {
+  // https://mimesniff.spec.whatwg.org/#parse-a-mime-type
+  input = input.trim();
+  const slashIndex = input.indexOf("/");
+  if (slashIndex < 0) {
+    return undefined;
+  }
+  const type = input.slice(0, slashIndex);
+  let semicolonIndex = input.indexOf(";", slashIndex);
+  if (semicolonIndex < 0) {
+    semicolonIndex = input.length;
+  }
+  const subtype = input.slice(slashIndex + 1, semicolonIndex).trimEnd();
+  if (!TOKEN.test(type) || !TOKEN.test(subtype)) {
+    return undefined;
+  }
+  const parameters = new Map<string, string>();
+  let position = semicolonIndex + 1;
+  while (position < input.length) {
+    // Skip whitespace before the parameter name.
+    while (position < input.length && /\s/.test(input[position])) {
+      position++;
+    }
+    const nameEnd = findFirst(input, position, ";=");
+    const name = input.slice(position, nameEnd).toLowerCase();
+    position = nameEnd;
+    if (input[position] === ";") {
+      // A parameter without a value is ignored.
+      position++;
+      continue;
+    }
+    position++; // skip "="
+    let value: string;
+    if (input[position] === '"') {
+      // A quoted string, where a backslash escapes the next character.
+      value = "";
+      position++;
+      while (position < input.length && input[position] !== '"') {
+        if (input[position] === "\\" && position + 1 < input.length) {
+          position++;
+        }
+        value += input[position];
+        position++;
+      }
+      // Ignore anything between the closing quote and the next semicolon.
+      position = findFirst(input, position, ";") + 1;
+    } else {
+      const valueEnd = findFirst(input, position, ";");
+      value = input.slice(position, valueEnd).trimEnd();
+      position = valueEnd + 1;
+      if (value === "") {
+        continue;
+      }
+    }
+    // Only the first occurrence of each parameter is used.
+    if (name !== "" && TOKEN.test(name) && !parameters.has(name)) {
+      parameters.set(name, value);
+    }
+  }
+  return {
+    essence: `${type}/${subtype}`.toLowerCase(),
+    parameters
+  };
+}
+
+// Returns the list of codecs in the "codecs" parameter, or undefined if there is none.
+export function getCodecs(mimeType: MimeType): string[] | undefined {
+  // https://www.rfc-editor.org/rfc/rfc6381#section-3
+  const codecs = mimeType.parameters.get("codecs");
+  if (codecs === undefined) {
+    return undefined;
+  }
+  return codecs.split(",").map((codec) => codec.trim());
+}
+
+function findFirst(input: string, position: number, chars: string): number {
+  while (position < input.length && !chars.includes(input[position])) {
+    position++;
+  }
+  return position;
+}
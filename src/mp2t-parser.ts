@@ -0,0 +1,576 @@
+import {
+  AudioTrackDescription,
+  ByteStreamParser,
+  CodedFrame,
+  ParseResult,
+  VideoTrackDescription
+} from "./byte-stream-format";
+import {
+  AAC_SAMPLES_PER_BLOCK,
+  getAdtsDecoderConfig,
+  readAdtsHeader
+} from "./adts";
+import {
+  getAvcDecoderConfig,
+  getNalUnitType,
+  NalUnitType,
+  splitAnnexBNalUnits,
+  toAvcSample
+} from "./h264";
+import { InputBuffer } from "./input-buffer";
+
+const PACKET_SIZE = 188;
+const SYNC_BYTE = 0x47;
+const PAT_PID = 0x0000;
+
+// https://www.itu.int/rec/T-REC-H.222.0 (Table 2-34)
+const STREAM_TYPE_AAC = 0x0f;
+const STREAM_TYPE_H264 = 0x1b;
+const ISO_639_LANGUAGE_DESCRIPTOR = 0x0a;
+
+// The PES timestamps use a 90 kHz clock and wrap around after 33 bits.
+const TIMESTAMP_CLOCK_RATE = 90000;
+const TIMESTAMP_ROLLOVER = 2 ** 33;
+
+class Mp2tParseError extends Error {}
+
+// A result that is queued until the next call to parse().
+type QueuedResult = Exclude<
+  ParseResult,
+  { type: "needMoreData" } | { type: "error" }
+>;
+
+interface ElementaryStream {
+  pid: number;
+  type: "audio" | "video";
+  language: string;
+  // The payloads of the PES packet that is currently being reassembled.
+  pesChunks: Uint8Array[];
+  pesByteLength: number;
+  // The length of the PES packet, if known.
+  pesPacketLength: number | undefined;
+  codecConfig: AudioDecoderConfig | VideoDecoderConfig | undefined;
+  // The last video frame, which is only emitted once the next frame
+  // tells us its duration.
+  pendingFrame: CodedFrame | undefined;
+  lastFrameDuration: number;
+  // The end of the last audio frame, for PES packets without a timestamp.
+  nextTimestamp: number;
+  sps: Uint8Array | undefined;
+  pps: Uint8Array[];
+}
+
+interface PesPacket {
+  pts: number | undefined;
+  dts: number | undefined;
+  payload: Uint8Array;
+}
+
+// https://w3c.github.io/mse-byte-stream-format-mp2t/
+export class Mp2tParser implements ByteStreamParser {
+  readonly generateTimestamps: boolean = false;
+  #pmtPid: number | undefined = undefined;
+  #pmtReceived: boolean = false;
+  #streams: Map<number, ElementaryStream> = new Map();
+  #initializationSegmentSent: boolean = false;
+  #inMediaSegment: boolean = false;
+  // Coded frames that were demuxed from the current input.
+  #frames: CodedFrame[] = [];
+  #queuedResults: QueuedResult[] = [];
+  #lastTimestamp: number | undefined = undefined;
+
+  parse(input: InputBuffer): ParseResult {
+    const queuedResult = this.#queuedResults.shift();
+    if (queuedResult !== undefined) {
+      return queuedResult;
+    }
+    // Parse all complete packets at once.
+    const packetCount = Math.floor(input.byteLength / PACKET_SIZE);
+    if (packetCount === 0) {
+      return { type: "needMoreData" };
+    }
+    const packets = input.peek(packetCount * PACKET_SIZE);
+    try {
+      for (let i = 0; i < packetCount; i++) {
+        this.#parsePacket(
+          packets.subarray(i * PACKET_SIZE, (i + 1) * PACKET_SIZE)
+        );
+      }
+    } catch (e) {
+      if (e instanceof Mp2tParseError) {
+        return { type: "error" };
+      }
+      throw e;
+    }
+    this.#queueFrames();
+    // The first result consumes all packets, the rest consume nothing.
+    const byteLength = packetCount * PACKET_SIZE;
+    const result = this.#queuedResults.shift();
+    if (result === undefined) {
+      return { type: "skip", byteLength };
+    }
+    return { ...result, byteLength };
+  }
+
+  flush(): CodedFrame[] {
+    // Without an initialization segment, the frames must wait for their codec configuration.
+    if (!this.#initializationSegmentSent) {
+      return [];
+    }
+    for (const stream of this.#streams.values()) {
+      // A PES packet without a length only ends at the start of the next one.
+      if (stream.pesChunks.length > 0) {
+        try {
+          this.#completePes(stream);
+        } catch (e) {
+          // Drop an invalid PES packet.
+          if (!(e instanceof Mp2tParseError)) {
+            throw e;
+          }
+        }
+      }
+      // Assume that the last video frame is as long as the frame before it.
+      if (stream.pendingFrame !== undefined) {
+        stream.pendingFrame.duration = stream.lastFrameDuration;
+        this.#frames.push(stream.pendingFrame);
+        stream.pendingFrame = undefined;
+      }
+    }
+    const frames = this.#frames;
+    this.#frames = [];
+    return frames;
+  }
+
+  reset(): void {
+    for (const stream of this.#streams.values()) {
+      resetPes(stream);
+      stream.pendingFrame = undefined;
+    }
+    this.#frames = [];
+    this.#queuedResults = [];
+    this.#inMediaSegment = false;
+  }
+
+  #parsePacket(packet: Uint8Array): void {
+    // https://www.itu.int/rec/T-REC-H.222.0 (2.4.3.2)
+    if (packet[0] !== SYNC_BYTE) {
+      throw new Mp2tParseError("Invalid sync byte");
+    }
+    const payloadUnitStart = (packet[1] & 0x40) !== 0;
+    const pid = ((packet[1] & 0x1f) << 8) | packet[2];
+    const adaptationFieldControl = (packet[3] >> 4) & 0x03;
+    let offset = 4;
+    if (adaptationFieldControl & 0x02) {
+      // Skip the adaptation field.
+      offset += 1 + packet[4];
+    }
+    if (!(adaptationFieldControl & 0x01) || offset >= PACKET_SIZE) {
+      // This packet has no payload.
+      return;
+    }
+    const payload = packet.subarray(offset);
+    if (pid === PAT_PID) {
+      if (payloadUnitStart) {
+        this.#parsePat(getSection(payload));
+      }
+    } else if (pid === this.#pmtPid) {
+      if (payloadUnitStart) {
+        this.#parsePmt(getSection(payload));
+      }
+    } else {
+      const stream = this.#streams.get(pid);
+      if (stream !== undefined) {
+        this.#parsePesPayload(stream, payload, payloadUnitStart);
+      }
+    }
+  }
+
+  #parsePat(section: Uint8Array): void {
+    // https://www.itu.int/rec/T-REC-H.222.0 (2.4.4.3)
+    // Use the first program in the program association table.
+    for (let offset = 8; offset + 4 <= section.byteLength; offset += 4) {
+      const programNumber = (section[offset] << 8) | section[offset + 1];
+      if (programNumber !== 0) {
+        this.#pmtPid =
+          ((section[offset + 2] & 0x1f) << 8) | section[offset + 3];
+        return;
+      }
+    }
+  }
+
+  #parsePmt(section: Uint8Array): void {
+    // https://www.itu.int/rec/T-REC-H.222.0 (2.4.4.8)
+    if (section.byteLength < 12) {
+      throw new Mp2tParseError("Invalid program map table");
+    }
+    const programInfoLength = ((section[10] & 0x0f) << 8) | section[11];
+    const streams = new Map<number, ElementaryStream>();
+    let offset = 12 + programInfoLength;
+    while (offset + 5 <= section.byteLength) {
+      const streamType = section[offset];
+      const pid = ((section[offset + 1] & 0x1f) << 8) | section[offset + 2];
+      const esInfoLength =
+        ((section[offset + 3] & 0x0f) << 8) | section[offset + 4];
+      const esInfo = section.subarray(offset + 5, offset + 5 + esInfoLength);
+      offset += 5 + esInfoLength;
+      // Other stream types are not supported.
+      let type: "audio" | "video";
+      if (streamType === STREAM_TYPE_AAC) {
+        type = "audio";
+      } else if (streamType === STREAM_TYPE_H264) {
+        type = "video";
+      } else {
+        continue;
+      }
+      // Keep the state of streams that did not change.
+      const existingStream = this.#streams.get(pid);
+      streams.set(
+        pid,
+        existingStream?.type === type
+          ? existingStream
+          : createElementaryStream(pid, type, getLanguage(esInfo))
+      );
+    }
+    // The program map table is repeated regularly.
+    // Only start a new initialization segment if its streams have changed.
+    const changed =
+      !this.#pmtReceived ||
+      streams.size !== this.#streams.size ||
+      [...streams.values()].some(
+        (stream) => this.#streams.get(stream.pid) !== stream
+      );
+    if (!changed) {
+      return;
+    }
+    if (this.#initializationSegmentSent) {
+      this.#queueFrames();
+    }
+    if (this.#inMediaSegment) {
+      this.#queuedResults.push({ type: "mediaSegmentEnd", byteLength: 0 });
+      this.#inMediaSegment = false;
+    }
+    this.#pmtReceived = true;
+    this.#streams = streams;
+    this.#initializationSegmentSent = false;
+    this.#queuedResults.push({
+      type: "initializationSegmentStart",
+      byteLength: 0
+    });
+  }
+
+  #parsePesPayload(
+    stream: ElementaryStream,
+    payload: Uint8Array,
+    payloadUnitStart: boolean
+  ): void {
+    // https://www.itu.int/rec/T-REC-H.222.0 (2.4.3.6)
+    if (payloadUnitStart) {
+      // A new PES packet starts, so the previous one is complete.
+      if (stream.pesChunks.length > 0) {
+        this.#completePes(stream);
+      }
+      if (payload.byteLength >= 6) {
+        const pesPacketLength = (payload[4] << 8) | payload[5];
+        stream.pesPacketLength =
+          pesPacketLength > 0 ? 6 + pesPacketLength : undefined;
+      }
+    } else if (stream.pesChunks.length === 0) {
+      // Wait for the start of the next PES packet.
+      return;
+    }
+    stream.pesChunks.push(payload.slice());
+    stream.pesByteLength += payload.byteLength;
+    if (
+      stream.pesPacketLength !== undefined &&
+      stream.pesByteLength >= stream.pesPacketLength
+    ) {
+      this.#completePes(stream);
+    }
+  }
+
+  #completePes(stream: ElementaryStream): void {
+    const data = new Uint8Array(stream.pesByteLength);
+    let offset = 0;
+    for (const chunk of stream.pesChunks) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    resetPes(stream);
+    const pes = this.#readPesPacket(data);
+    if (stream.type === "audio") {
+      this.#parseAdtsFrames(stream, pes);
+    } else {
+      this.#parseAccessUnit(stream, pes);
+    }
+  }
+
+  #readPesPacket(data: Uint8Array): PesPacket {
+    // https://www.itu.int/rec/T-REC-H.222.0 (Table 2-21)
+    if (
+      data.byteLength < 9 ||
+      data[0] !== 0 ||
+      data[1] !== 0 ||
+      data[2] !== 1
+    ) {
+      throw new Mp2tParseError("Invalid PES packet");
+    }
+    const ptsDtsFlags = data[7] >> 6;
+    const headerDataLength = data[8];
+    const payloadStart = 9 + headerDataLength;
+    if (payloadStart > data.byteLength) {
+      throw new Mp2tParseError("Invalid PES header");
+    }
+    let pts: number | undefined = undefined;
+    let dts: number | undefined = undefined;
+    if (ptsDtsFlags & 0x02) {
+      pts = this.#unwrapTimestamp(readTimestamp(data, 9));
+      dts =
+        ptsDtsFlags === 0x03
+          ? this.#unwrapTimestamp(readTimestamp(data, 14))
+          : pts;
+    }
+    const pesPacketLength = (data[4] << 8) | data[5];
+    const payloadEnd =
+      pesPacketLength > 0
+        ? Math.min(6 + pesPacketLength, data.byteLength)
+        : data.byteLength;
+    return { pts, dts, payload: data.subarray(payloadStart, payloadEnd) };
+  }
+
+  #unwrapTimestamp(timestamp: number): number {
+    // Pick the value closest to the previous timestamp,
+    // in case the 33-bit timestamp has wrapped around.
+    if (this.#lastTimestamp !== undefined) {
+      const reference = this.#lastTimestamp * TIMESTAMP_CLOCK_RATE;
+      timestamp +=
+        Math.round((reference - timestamp) / TIMESTAMP_ROLLOVER) *
+        TIMESTAMP_ROLLOVER;
+    }
+    this.#lastTimestamp = timestamp / TIMESTAMP_CLOCK_RATE;
+    return this.#lastTimestamp;
+  }
+
+  #parseAdtsFrames(stream: ElementaryStream, pes: PesPacket): void {
+    // https://w3c.github.io/mse-byte-stream-format-mp2t/#mpeg2ts-audio-splicing
+    // Each PES packet contains one or more ADTS frames.
+    let timestamp = pes.pts ?? stream.nextTimestamp;
+    let offset = 0;
+    while (offset < pes.payload.byteLength) {
+      const header = readAdtsHeader(pes.payload.subarray(offset));
+      if (header === undefined) {
+        throw new Mp2tParseError("Invalid ADTS frame");
+      }
+      if (offset + header.frameLength > pes.payload.byteLength) {
+        // Drop a truncated frame at the end of the PES packet.
+        break;
+      }
+      stream.codecConfig ??= getAdtsDecoderConfig(header);
+      const duration =
+        (header.blockCount * AAC_SAMPLES_PER_BLOCK) / header.sampleRate;
+      this.#frames.push({
+        trackId: stream.pid,
+        data: pes.payload.slice(
+          offset + header.headerLength,
+          offset + header.frameLength
+        ),
+        is_sync: true,
+        presentationTimestamp: timestamp,
+        decodeTimestamp: timestamp,
+        duration
+      });
+      timestamp += duration;
+      offset += header.frameLength;
+    }
+    stream.nextTimestamp = timestamp;
+  }
+
+  #parseAccessUnit(stream: ElementaryStream, pes: PesPacket): void {
+    // Each PES packet contains one access unit in Annex B format.
+    if (pes.pts === undefined || pes.dts === undefined) {
+      throw new Mp2tParseError("Missing video timestamp");
+    }
+    const nalUnits: Uint8Array[] = [];
+    let is_sync = false;
+    for (const nalUnit of splitAnnexBNalUnits(pes.payload)) {
+      switch (getNalUnitType(nalUnit)) {
+        case NalUnitType.AUD:
+          // Access unit delimiters are not used in AVC format.
+          continue;
+        case NalUnitType.SPS:
+          stream.sps = nalUnit.slice();
+          stream.pps = [];
+          break;
+        case NalUnitType.PPS:
+          stream.pps.push(nalUnit.slice());
+          break;
+        case NalUnitType.IDR:
+          is_sync = true;
+          break;
+      }
+      nalUnits.push(nalUnit);
+    }
+    if (
+      stream.codecConfig === undefined &&
+      stream.sps !== undefined &&
+      stream.pps.length > 0
+    ) {
+      stream.codecConfig = getAvcDecoderConfig(stream.sps, stream.pps);
+    }
+    if (nalUnits.length === 0) {
+      return;
+    }
+    const frame: CodedFrame = {
+      trackId: stream.pid,
+      data: toAvcSample(nalUnits),
+      is_sync,
+      presentationTimestamp: pes.pts,
+      decodeTimestamp: pes.dts,
+      duration: 0
+    };
+    // The previous frame lasts until the decode timestamp of this frame.
+    const pendingFrame = stream.pendingFrame;
+    if (pendingFrame !== undefined) {
+      const duration = frame.decodeTimestamp - pendingFrame.decodeTimestamp;
+      if (duration > 0) {
+        stream.lastFrameDuration = duration;
+      }
+      pendingFrame.duration = stream.lastFrameDuration;
+      this.#frames.push(pendingFrame);
+    }
+    stream.pendingFrame = frame;
+  }
+
+  #queueFrames(): void {
+    // The initialization segment is only complete once the codec configuration
+    // of every stream is known, which requires its first frame.
+    if (!this.#initializationSegmentSent) {
+      const streams = [...this.#streams.values()];
+      if (
+        !this.#pmtReceived ||
+        streams.some((stream) => stream.codecConfig === undefined)
+      ) {
+        return;
+      }
+      const audioTracks: AudioTrackDescription[] = [];
+      const videoTracks: VideoTrackDescription[] = [];
+      for (const stream of streams) {
+        const trackInit = {
+          id: stream.pid,
+          kind: "",
+          label: "",
+          language: stream.language
+        };
+        if (stream.type === "audio") {
+          audioTracks.push({
+            type: "audio",
+            ...trackInit,
+            codecConfig: stream.codecConfig as AudioDecoderConfig,
+            primingEnd: 0
+          });
+        } else {
+          videoTracks.push({
+            type: "video",
+            ...trackInit,
+            codecConfig: stream.codecConfig as VideoDecoderConfig
+          });
+        }
+      }
+      this.#queuedResults.push({
+        type: "initializationSegment",
+        byteLength: 0,
+        segment: { duration: NaN, audioTracks, videoTracks }
+      });
+      this.#initializationSegmentSent = true;
+    }
+    if (this.#frames.length === 0) {
+      return;
+    }
+    if (!this.#inMediaSegment) {
+      this.#queuedResults.push({ type: "mediaSegmentStart", byteLength: 0 });
+      this.#inMediaSegment = true;
+    }
+    this.#queuedResults.push({
+      type: "codedFrames",
+      byteLength: 0,
+      frames: this.#frames
+    });
+    this.#frames = [];
+  }
+}
+
+function createElementaryStream(
+  pid: number,
+  type: "audio" | "video",
+  language: string
+): ElementaryStream {
+  return {
+    pid,
+    type,
+    language,
+    pesChunks: [],
+    pesByteLength: 0,
+    pesPacketLength: undefined,
+    codecConfig: undefined,
+    pendingFrame: undefined,
+    lastFrameDuration: 0,
+    nextTimestamp: 0,
+    sps: undefined,
+    pps: []
+  };
+}
+
+function resetPes(stream: ElementaryStream): void {
+  stream.pesChunks = [];
+  stream.pesByteLength = 0;
+  stream.pesPacketLength = undefined;
+}
+
+function getSection(payload: Uint8Array): Uint8Array {
+  // https://www.itu.int/rec/T-REC-H.222.0 (2.4.4)
+  // The payload starts with a pointer to the start of the section.
+  // Assume that each section fits in a single packet.
+  const sectionStart = 1 + payload[0];
+  if (sectionStart + 3 > payload.byteLength) {
+    throw new Mp2tParseError("Invalid section");
+  }
+  const sectionLength =
+    ((payload[sectionStart + 1] & 0x0f) << 8) | payload[sectionStart + 2];
+  // Exclude the CRC at the end of the section.
+  const sectionEnd = sectionStart + 3 + sectionLength - 4;
+  if (sectionEnd > payload.byteLength) {
+    throw new Mp2tParseError("Section does not fit in packet");
+  }
+  return payload.subarray(sectionStart, sectionEnd);
+}
+
+function getLanguage(descriptors: Uint8Array): string {
+  // https://dev.w3.org/html5/html-sourcing-inband-tracks/#mpeg2
+  // The language comes from the ISO_639_language_descriptor.
+  let offset = 0;
+  while (offset + 2 <= descriptors.byteLength) {
+    const tag = descriptors[offset];
+    const length = descriptors[offset + 1];
+    if (tag === ISO_639_LANGUAGE_DESCRIPTOR && length >= 3) {
+      const language = String.fromCharCode(
+        ...descriptors.subarray(offset + 2, offset + 5)
+      );
+      return language === "und" ? "" : language;
+    }
+    offset += 2 + length;
+  }
+  return "";
+}
+
+function readTimestamp(data: Uint8Array, offset: number): number {
+  // The 33-bit timestamp is split into 3 parts, separated by marker bits.
+  if (offset + 5 > data.byteLength) {
+    throw new Mp2tParseError("Invalid PES timestamp");
+  }
+  return (
+    ((data[offset] >> 1) & 0x07) * 2 ** 30 +
+    ((data[offset + 1] << 22) |
+      ((data[offset + 2] >> 1) << 15) |
+      (data[offset + 3] << 7) |
+      (data[offset + 4] >> 1))
+  );
+}
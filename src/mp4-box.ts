@@ -0,0 +1,63 @@
+export interface BoxHeader {
+  type: string;
+  size: number;
+  headerSize: number;
+}
+
+// A box whose data is completely available.
+export interface ChildBox {
+  type: string;
+  // The offset of the box within its parent's payload.
+  offset: number;
+  // The size of the box, including its header.
+  size: number;
+  // The data of the box, without its header.
+  payload: Uint8Array;
+}
+
+export function readBoxHeader(input: Uint8Array): BoxHeader | undefined {
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 4.2)
+  if (input.byteLength < 8) {
+    return undefined;
+  }
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  const type = String.fromCharCode(...input.subarray(4, 8));
+  const size = view.getUint32(0);
+  if (size !== 1) {
+    // A size of 0 means that the box extends to the end of the file,
+    // which is not allowed in a byte stream.
+    return { type, size, headerSize: 8 };
+  }
+  if (input.byteLength < 16) {
+    return undefined;
+  }
+  return { type, size: Number(view.getBigUint64(8)), headerSize: 16 };
+}
+
+// Reads the boxes inside the payload of a container box.
+// Stops at the first box that is not completely available.
+export function readChildBoxes(payload: Uint8Array): ChildBox[] {
+  const boxes: ChildBox[] = [];
+  let offset = 0;
+  while (offset < payload.byteLength) {
+    const header = readBoxHeader(payload.subarray(offset));
+    if (
+      header === undefined ||
+      header.size < header.headerSize ||
+      offset + header.size > payload.byteLength
+    ) {
+      break;
+    }
+    boxes.push({
+      type: header.type,
+      offset,
+      size: header.size,
+      payload: payload.subarray(
+        offset + header.headerSize,
+        offset + header.size
+      )
+    });
+    offset += header.size;
+  }
+  return boxes;
+}
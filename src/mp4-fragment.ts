@@ -0,0 +1,222 @@
+// Movie fragments of a fragmented MP4 file.
+// https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.8)
+import { readChildBoxes } from "./mp4-box";
+
+// The default values for the samples of a track in movie fragments, from its "trex" box.
+export interface TrackExtends {
+  defaultSampleDuration: number;
+  defaultSampleSize: number;
+  defaultSampleFlags: number;
+}
+
+// A sample in a movie fragment.
+export interface FragmentSample {
+  // The file offset of the sample data.
+  offset: number;
+  size: number;
+  // The decode time, composition time offset and duration (in the track's timescale).
+  decodeTime: number;
+  compositionTimeOffset: number;
+  duration: number;
+  isSync: boolean;
+}
+
+export interface TrackFragment {
+  trackId: number;
+  // Whether the decode times start at a "tfdt" box.
+  // Otherwise, they start at 0 and follow the previous fragment of the track.
+  hasDecodeTime: boolean;
+  // The file offset to which the data offsets in this track fragment are relative.
+  baseDataOffset: number;
+  samples: FragmentSample[];
+}
+
+// Reads the "trex" boxes from the payload of a "mvex" box, by track ID.
+export function parseMovieExtends(
+  payload: Uint8Array
+): Map<number, TrackExtends> | undefined {
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.8.3)
+  const trackExtends = new Map<number, TrackExtends>();
+  for (const box of readChildBoxes(payload)) {
+    if (box.type !== "trex") {
+      continue;
+    }
+    if (box.payload.byteLength < 24) {
+      return undefined;
+    }
+    const view = toDataView(box.payload);
+    trackExtends.set(view.getUint32(4), {
+      defaultSampleDuration: view.getUint32(12),
+      defaultSampleSize: view.getUint32(16),
+      defaultSampleFlags: view.getUint32(20)
+    });
+  }
+  return trackExtends;
+}
+
+// Reads the samples of all track fragments from the payload of a "moof" box,
+// which starts at the given file offset.
+export function parseMovieFragment(
+  payload: Uint8Array,
+  moofStart: number,
+  trackExtends: ReadonlyMap<number, TrackExtends>
+): TrackFragment[] | undefined {
+  const fragments: TrackFragment[] = [];
+  // The data of a track fragment without an explicit base data offset
+  // follows the data of the previous track fragment.
+  let dataEnd = moofStart;
+  try {
+    for (const traf of readChildBoxes(payload)) {
+      if (traf.type !== "traf") {
+        continue;
+      }
+      const fragment = parseTrackFragment(
+        traf.payload,
+        moofStart,
+        fragments.length === 0 ? moofStart : dataEnd,
+        trackExtends
+      );
+      if (fragment === undefined) {
+        return undefined;
+      }
+      for (const sample of fragment.samples) {
+        dataEnd = Math.max(dataEnd, sample.offset + sample.size);
+      }
+      fragments.push(fragment);
+    }
+  } catch {
+    // A box is too short.
+    return undefined;
+  }
+  return fragments;
+}
+
+function parseTrackFragment(
+  payload: Uint8Array,
+  moofStart: number,
+  defaultBaseDataOffset: number,
+  trackExtends: ReadonlyMap<number, TrackExtends>
+): TrackFragment | undefined {
+  const boxes = readChildBoxes(payload);
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.8.7)
+  const tfhd = boxes.find((box) => box.type === "tfhd")?.payload;
+  if (tfhd === undefined) {
+    return undefined;
+  }
+  const tfhdView = toDataView(tfhd);
+  const tfhdFlags = tfhdView.getUint32(0) & 0xffffff;
+  const trackId = tfhdView.getUint32(4);
+  const defaults = trackExtends.get(trackId);
+  if (defaults === undefined) {
+    return undefined;
+  }
+  let position = 8;
+  let baseDataOffset = defaultBaseDataOffset;
+  if (tfhdFlags & 0x000001) {
+    baseDataOffset = Number(tfhdView.getBigUint64(position));
+    position += 8;
+  } else if (tfhdFlags & 0x020000) {
+    // default-base-is-moof
+    baseDataOffset = moofStart;
+  }
+  if (tfhdFlags & 0x000002) {
+    // Only a single sample description is supported.
+    position += 4;
+  }
+  let defaultSampleDuration = defaults.defaultSampleDuration;
+  if (tfhdFlags & 0x000008) {
+    defaultSampleDuration = tfhdView.getUint32(position);
+    position += 4;
+  }
+  let defaultSampleSize = defaults.defaultSampleSize;
+  if (tfhdFlags & 0x000010) {
+    defaultSampleSize = tfhdView.getUint32(position);
+    position += 4;
+  }
+  let defaultSampleFlags = defaults.defaultSampleFlags;
+  if (tfhdFlags & 0x000020) {
+    defaultSampleFlags = tfhdView.getUint32(position);
+    position += 4;
+  }
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.8.12)
+  const tfdt = boxes.find((box) => box.type === "tfdt")?.payload;
+  let decodeTime = 0;
+  if (tfdt !== undefined) {
+    const tfdtView = toDataView(tfdt);
+    decodeTime =
+      tfdtView.getUint8(0) === 1
+        ? Number(tfdtView.getBigUint64(4))
+        : tfdtView.getUint32(4);
+  }
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.8.8)
+  const samples: FragmentSample[] = [];
+  let dataOffset = baseDataOffset;
+  for (const trun of boxes) {
+    if (trun.type !== "trun") {
+      continue;
+    }
+    const view = toDataView(trun.payload);
+    const version = view.getUint8(0);
+    const flags = view.getUint32(0) & 0xffffff;
+    const sampleCount = view.getUint32(4);
+    position = 8;
+    // Without a data offset, the data of a run follows the data of the previous run.
+    if (flags & 0x000001) {
+      dataOffset = baseDataOffset + view.getInt32(position);
+      position += 4;
+    }
+    let firstSampleFlags: number | undefined;
+    if (flags & 0x000004) {
+      firstSampleFlags = view.getUint32(position);
+      position += 4;
+    }
+    for (let i = 0; i < sampleCount; i++) {
+      let duration = defaultSampleDuration;
+      if (flags & 0x000100) {
+        duration = view.getUint32(position);
+        position += 4;
+      }
+      let size = defaultSampleSize;
+      if (flags & 0x000200) {
+        size = view.getUint32(position);
+        position += 4;
+      }
+      let sampleFlags =
+        i === 0 && firstSampleFlags !== undefined
+          ? firstSampleFlags
+          : defaultSampleFlags;
+      if (flags & 0x000400) {
+        sampleFlags = view.getUint32(position);
+        position += 4;
+      }
+      let compositionTimeOffset = 0;
+      if (flags & 0x000800) {
+        // Version 1 allows negative composition time offsets.
+        compositionTimeOffset =
+          version === 0 ? view.getUint32(position) : view.getInt32(position);
+        position += 4;
+      }
+      samples.push({
+        offset: dataOffset,
+        size,
+        decodeTime,
+        compositionTimeOffset,
+        duration,
+        // The sample_is_non_sync_sample flag.
+        isSync: (sampleFlags & 0x00010000) === 0
+      });
+      dataOffset += size;
+      decodeTime += duration;
+    }
+  }
+  return {
+    trackId,
+    hasDecodeTime: tfdt !== undefined,
+    baseDataOffset,
+    samples
+  };
+}
+
+function toDataView(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -0,0 +1,1201 @@
+import {
+  Ac3Box,
+  AudioTrackInfo,
+  Av01Box,
+  AvcBox,
+  Box,
+  BoxParser,
+  createFile,
+  DataStream,
+  Ec3Box,
+  EncryptedSampleEntry,
+  FlacBox,
+  HvcBox,
+  Info,
+  ISOFile,
+  Mp4aBox,
+  MP4ArrayBuffer,
+  OpusBox,
+  Sample,
+  SampleEntryConstructor,
+  TrackInfo,
+  TrakBox,
+  VideoTrackInfo,
+  Vp09Box
+} from "mp4box";
+import {
+  AudioTrackDescription,
+  ByteStreamParser,
+  CodedFrame,
+  EventMessage,
+  InitializationSegment,
+  ParseResult,
+  TrackDescription,
+  VideoTrackDescription
+} from "./byte-stream-format";
+import { SegmentIndex, SegmentReference } from "./segment-index";
+import { ChildBox, readBoxHeader, readChildBoxes } from "./mp4-box";
+import {
+  parseMovieExtends,
+  parseMovieFragment,
+  TrackExtends,
+  TrackFragment
+} from "./mp4-fragment";
+import { InputBuffer } from "./input-buffer";
+import {
+  readSampleEncryptions,
+  SampleEncryption,
+  TrackEncryption
+} from "./cenc";
+import { concatUint8Arrays, fromHex, sumWith } from "./util";
+
+// A box header has a 32-bit size and type, optionally followed by a 64-bit size.
+const MAX_BOX_HEADER_SIZE = 16;
+
+// MP4Box does not know the FLAC sample entry.
+BoxParser.createSampleEntryCtor(BoxParser.SAMPLE_ENTRY_TYPE_AUDIO, "fLaC");
+
+// A sample in a non-fragmented file, which is described by the sample tables in the moov.
+interface ProgressiveSample {
+  trackId: number;
+  sample: Omit<Sample, "data">;
+}
+
+// The mdat box that is currently being parsed.
+interface MediaData {
+  // The file offsets of the start and end of the box's payload.
+  start: number;
+  end: number;
+  // The payload, if the box was received before the moov.
+  data?: Uint8Array;
+}
+
+// An event message that applies to the next media segment.
+interface PendingEventMessage {
+  message: EventMessage;
+  // Whether the presentation time is relative to the earliest presentation time
+  // of the media segment, rather than to the start of the media timeline.
+  isRelative: boolean;
+}
+
+// A reference from a segment index box to a subsegment,
+// or to another segment index box in a hierarchical index.
+interface IndexReference extends SegmentReference {
+  referencesIndex: boolean;
+}
+
+// https://w3c.github.io/mse-byte-stream-format-isobmff/
+export class Mp4Parser implements ByteStreamParser {
+  readonly generateTimestamps: boolean = false;
+  #initializationData: Uint8Array | undefined = undefined;
+  #trackIds: number[] = [];
+  #isoFile: ISOFile | undefined = undefined;
+  #queuedResults: ParseResult[] = [];
+  // The offset of the next byte in the file, counted from the start of the ftyp.
+  #filePosition: number = 0;
+  // The samples of a non-fragmented file, sorted by their offset in the file.
+  #progressiveSamples: ProgressiveSample[] = [];
+  #nextProgressiveSample: number = 0;
+  #mediaData: MediaData | undefined = undefined;
+  #bufferedMediaData: MediaData[] = [];
+  #pendingEventMessages: PendingEventMessage[] = [];
+  #indexReferences: IndexReference[] = [];
+  // The position in the byte stream of the anchor point of the current segment index,
+  // which is the first byte after its top-level "sidx" box.
+  // The byte ranges in the index are relative to this anchor point,
+  // so they do not depend on what was appended before the index.
+  #indexAnchor: number = 0;
+  #trackEncryptions: Map<number, TrackEncryption> = new Map();
+  // The offset (in seconds) from media time to presentation time of each track,
+  // from its edit list.
+  #editOffsets: Map<number, number> = new Map();
+  // The timescale of each track.
+  #timescales: Map<number, number> = new Map();
+  #trackExtends: Map<number, TrackExtends> = new Map();
+  // The decode time (in the track's timescale) at which the next fragment of each track starts,
+  // for fragments without a "tfdt" box.
+  #nextDecodeTimes: Map<number, number> = new Map();
+  // The file offset and data of the moof that is currently being parsed,
+  // and the samples of its track fragments.
+  #movieFragmentStart: number = 0;
+  #movieFragmentData: Uint8Array | undefined = undefined;
+  #trackFragments: TrackFragment[] = [];
+
+  parse(input: InputBuffer): ParseResult {
+    const result = this.#queuedResults.shift() ?? this.#parse(input);
+    if ("byteLength" in result) {
+      this.#filePosition += result.byteLength;
+    }
+    return result;
+  }
+
+  flush(): CodedFrame[] {
+    // The samples of an mdat are emitted as soon as their data is complete.
+    return [];
+  }
+
+  reset(): void {
+    // Any partially parsed mdat is discarded,
+    // so the next append must start with a new box.
+    this.#queuedResults = [];
+    this.#mediaData = undefined;
+    this.#pendingEventMessages = [];
+    this.#trackFragments = [];
+  }
+
+  #parse(input: InputBuffer): ParseResult {
+    if (this.#mediaData !== undefined) {
+      return this.#parseMediaData(input);
+    }
+    const header = readBoxHeader(input.peek(MAX_BOX_HEADER_SIZE));
+    if (header === undefined) {
+      return { type: "needMoreData" };
+    }
+    if (header.type === "mdat" && this.#progressiveSamples.length > 0) {
+      // Extract the samples of a non-fragmented file as the mdat payload arrives.
+      // A size of 0 means that the mdat extends to the end of the file.
+      this.#mediaData = {
+        start: this.#filePosition + header.headerSize,
+        end: header.size === 0 ? Infinity : this.#filePosition + header.size
+      };
+      return { type: "mediaSegmentStart", byteLength: header.headerSize };
+    }
+    if (header.size < header.headerSize) {
+      return { type: "error" };
+    }
+    if (input.byteLength < header.size) {
+      return { type: "needMoreData" };
+    }
+    const byteLength = header.size;
+    // This is a view on the input buffer, so copy anything that is kept
+    // until long after the box is parsed.
+    const boxData = input.peek(byteLength);
+    switch (header.type) {
+      case "ftyp":
+        this.#filePosition = 0;
+        this.#initializationData = boxData.slice();
+        this.#isoFile = undefined;
+        this.#progressiveSamples = [];
+        this.#bufferedMediaData = [];
+        this.#pendingEventMessages = [];
+        this.#indexReferences = [];
+        this.#trackEncryptions = new Map();
+        this.#nextDecodeTimes = new Map();
+        return { type: "initializationSegmentStart", byteLength };
+      case "moov": {
+        this.#initializationData = this.#initializationData
+          ? concatUint8Arrays(this.#initializationData, boxData)
+          : boxData.slice();
+        this.#startFile();
+        const info = this.#isoFile!.getInfo();
+        const segment = this.#getInitializationSegment(info);
+        // Movie fragments are parsed directly, using the defaults from the "mvex" box.
+        const trackExtends = info.isFragmented
+          ? getTrackExtends(boxData.subarray(header.headerSize))
+          : new Map<number, TrackExtends>();
+        if (trackExtends === undefined) {
+          return { type: "error" };
+        }
+        this.#trackExtends = trackExtends;
+        const trackEncryptions = this.#getTrackEncryptions();
+        // Only the "cenc" and "cbcs" schemes are supported,
+        // and only in fragmented files.
+        if (
+          trackEncryptions === undefined ||
+          (!info.isFragmented && trackEncryptions.size > 0)
+        ) {
+          return { type: "error" };
+        }
+        this.#trackEncryptions = trackEncryptions;
+        if (!info.isFragmented) {
+          this.#startProgressive();
+        }
+        // https://w3c.github.io/encrypted-media/#initdata-encountered
+        // If the media data is encrypted, the initialization data is the
+        // concatenation of the "pssh" boxes, or null if there are none.
+        const initData = getProtectionSystemData(
+          boxData.subarray(header.headerSize)
+        );
+        if (initData !== undefined || trackEncryptions.size > 0) {
+          this.#queuedResults.push({
+            type: "initData",
+            byteLength: 0,
+            initDataType: initData !== undefined ? "cenc" : "",
+            initData: initData ?? null
+          });
+        }
+        return { type: "initializationSegment", byteLength, segment };
+      }
+      case "moof": {
+        if (this.#isoFile === undefined) {
+          return { type: "error" };
+        }
+        const trackFragments = parseMovieFragment(
+          boxData.subarray(header.headerSize),
+          this.#filePosition,
+          this.#trackExtends
+        );
+        if (trackFragments === undefined) {
+          return { type: "error" };
+        }
+        this.#trackFragments = trackFragments;
+        this.#movieFragmentStart = this.#filePosition;
+        this.#movieFragmentData = boxData;
+        const initData = getProtectionSystemData(
+          boxData.subarray(header.headerSize)
+        );
+        if (initData !== undefined) {
+          this.#queuedResults.push({
+            type: "initData",
+            byteLength: 0,
+            initDataType: "cenc",
+            initData
+          });
+        }
+        return { type: "mediaSegmentStart", byteLength };
+      }
+      case "mdat": {
+        if (this.#isoFile === undefined) {
+          // The mdat of a non-fragmented file may come before the moov.
+          // Keep its payload until the sample tables are known.
+          this.#bufferedMediaData.push({
+            start: this.#filePosition + header.headerSize,
+            end: this.#filePosition + byteLength,
+            data: boxData.subarray(header.headerSize)
+          });
+          return { type: "skip", byteLength };
+        }
+        const sampleEncryptions = this.#getSampleEncryptions(boxData);
+        if (sampleEncryptions === undefined) {
+          return { type: "error" };
+        }
+        const frames = this.#extractCodedFrames(boxData, sampleEncryptions);
+        this.#trackFragments = [];
+        if (this.#pendingEventMessages.length > 0) {
+          this.#queuedResults.push({
+            type: "eventMessages",
+            byteLength: 0,
+            events: this.#takeEventMessages(frames)
+          });
+        }
+        this.#queuedResults.push({ type: "mediaSegmentEnd", byteLength: 0 });
+        return { type: "codedFrames", byteLength, frames };
+      }
+      case "emsg": {
+        // https://dashif.org/docs/CR-Inband-Events.pdf
+        // Event messages precede the moof of the media segment they belong to.
+        const eventMessage = parseEventMessage(
+          boxData.subarray(header.headerSize)
+        );
+        if (eventMessage === undefined) {
+          return { type: "error" };
+        }
+        this.#pendingEventMessages.push(eventMessage);
+        return { type: "skip", byteLength };
+      }
+      case "sidx": {
+        // In a hierarchical index, the box may be referenced by an earlier segment index box,
+        // and its position is relative to the anchor point of that index.
+        // Otherwise, it starts a new index, whose anchor point is the first byte after this box.
+        const referenceIndex = this.#indexReferences.findIndex(
+          (reference) =>
+            reference.referencesIndex &&
+            reference.startByte === this.#filePosition - this.#indexAnchor
+        );
+        if (referenceIndex < 0) {
+          this.#indexAnchor = this.#filePosition + byteLength;
+        }
+        // The byte offsets are relative to the first byte after the box.
+        const references = parseSegmentIndex(
+          boxData.subarray(header.headerSize),
+          this.#filePosition + byteLength - this.#indexAnchor
+        );
+        if (references === undefined) {
+          return { type: "error" };
+        }
+        if (referenceIndex >= 0) {
+          this.#indexReferences.splice(referenceIndex, 1, ...references);
+        } else {
+          this.#indexReferences = references;
+        }
+        return {
+          type: "segmentIndex",
+          byteLength,
+          segmentIndex: this.#getSegmentIndex()
+        };
+      }
+      default:
+        return { type: "skip", byteLength };
+    }
+  }
+
+  #getSegmentIndex(): SegmentIndex {
+    // Only include the subsegments from the segment index boxes received so far.
+    return new SegmentIndex(
+      this.#indexReferences
+        .filter((reference) => !reference.referencesIndex)
+        .map(
+          (reference): SegmentReference => ({
+            startTime: reference.startTime,
+            endTime: reference.endTime,
+            startByte: reference.startByte,
+            endByte: reference.endByte,
+            startsWithSap: reference.startsWithSap
+          })
+        )
+    );
+  }
+
+  #getTrackEncryptions(): Map<number, TrackEncryption> | undefined {
+    // https://www.iso.org/standard/84637.html (ISO/IEC 23001-7, 8.1)
+    const trackEncryptions = new Map<number, TrackEncryption>();
+    for (const trackId of this.#trackIds) {
+      const entry = getSampleEntry(this.#isoFile!.getTrackById(trackId));
+      const sinf = (entry as EncryptedSampleEntry).sinfs?.[0];
+      if (sinf === undefined) {
+        continue;
+      }
+      const scheme = sinf.schm?.scheme_type;
+      const tenc = sinf.schi?.tenc;
+      if ((scheme !== "cenc" && scheme !== "cbcs") || tenc === undefined) {
+        return undefined;
+      }
+      trackEncryptions.set(trackId, {
+        scheme,
+        isProtected: tenc.default_isProtected === 1,
+        keyId: fromHex(tenc.default_KID),
+        perSampleIvSize: tenc.default_Per_Sample_IV_Size,
+        constantIv: tenc.default_constant_IV,
+        cryptByteBlock: tenc.default_crypt_byte_block ?? 0,
+        skipByteBlock: tenc.default_skip_byte_block ?? 0
+      });
+    }
+    return trackEncryptions;
+  }
+
+  // Returns the encryption parameters of the samples in the current movie fragment,
+  // by track ID and sample number.
+  #getSampleEncryptions(
+    mediaData: Uint8Array
+  ): Map<number, SampleEncryption[]> | undefined {
+    const sampleEncryptions = new Map<number, SampleEncryption[]>();
+    if (this.#trackEncryptions.size === 0) {
+      return sampleEncryptions;
+    }
+    const moof = this.#movieFragmentData!;
+    const moofStart = this.#movieFragmentStart;
+    const mdatStart = this.#filePosition;
+    // The sample auxiliary information can be stored in the moof or in the mdat.
+    const readFileData = (start: number, length: number) => {
+      if (start >= moofStart && start + length <= moofStart + moof.byteLength) {
+        return moof.subarray(start - moofStart, start - moofStart + length);
+      } else if (
+        start >= mdatStart &&
+        start + length <= mdatStart + mediaData.byteLength
+      ) {
+        return mediaData.subarray(
+          start - mdatStart,
+          start - mdatStart + length
+        );
+      } else {
+        return undefined;
+      }
+    };
+    const moofHeader = readBoxHeader(moof)!;
+    const trafs = readChildBoxes(moof.subarray(moofHeader.headerSize)).filter(
+      (box) => box.type === "traf"
+    );
+    for (const [trafIndex, traf] of trafs.entries()) {
+      const boxes = readChildBoxes(traf.payload);
+      const tfhd = findBoxPayload(boxes, "tfhd");
+      if (tfhd === undefined || tfhd.byteLength < 8) {
+        return undefined;
+      }
+      const tfhdView = toDataView(tfhd);
+      const trackId = tfhdView.getUint32(4);
+      const track = this.#trackEncryptions.get(trackId);
+      if (track === undefined || !track.isProtected) {
+        continue;
+      }
+      // The offsets of the sample auxiliary information are relative to the base data offset,
+      // the same as the data offsets of the samples.
+      const samples = readTrackFragmentEncryptions(
+        boxes,
+        this.#trackFragments[trafIndex].baseDataOffset,
+        readFileData,
+        track
+      );
+      if (samples === undefined) {
+        return undefined;
+      }
+      const trackSamples = sampleEncryptions.get(trackId) ?? [];
+      trackSamples.push(...samples);
+      sampleEncryptions.set(trackId, trackSamples);
+    }
+    return sampleEncryptions;
+  }
+
+  #takeEventMessages(frames: CodedFrame[]): EventMessage[] {
+    const earliestPresentationTime = Math.min(
+      ...frames.map((frame) => frame.presentationTimestamp)
+    );
+    // An absolute presentation time is on the media timeline, so it is offset
+    // by the edit list just like the sample timestamps.
+    // The media timeline of a segment with multiple tracks is that of its first track.
+    const editOffset = this.#editOffsets.get(this.#trackIds[0]) ?? 0;
+    const events: EventMessage[] = [];
+    for (const { message, isRelative } of this.#pendingEventMessages) {
+      if (!isRelative) {
+        events.push({
+          ...message,
+          presentationTime: message.presentationTime - editOffset
+        });
+      } else if (frames.length > 0) {
+        events.push({
+          ...message,
+          presentationTime: earliestPresentationTime + message.presentationTime
+        });
+      }
+    }
+    this.#pendingEventMessages = [];
+    return events;
+  }
+
+  #startProgressive(): void {
+    this.#progressiveSamples = [];
+    for (const trackId of this.#trackIds) {
+      const trak = this.#isoFile!.getTrackById(trackId);
+      for (const sample of trak.samples) {
+        this.#progressiveSamples.push({ trackId, sample });
+      }
+    }
+    this.#progressiveSamples.sort((a, b) => a.sample.offset - b.sample.offset);
+    this.#nextProgressiveSample = 0;
+    // Extract the samples from any mdat that came before the moov.
+    for (const mediaData of this.#bufferedMediaData) {
+      const frames = this.#extractProgressiveSamples(
+        mediaData.data!,
+        mediaData.start,
+        mediaData.end
+      );
+      this.#queuedResults.push(
+        { type: "mediaSegmentStart", byteLength: 0 },
+        { type: "codedFrames", byteLength: 0, frames },
+        { type: "mediaSegmentEnd", byteLength: 0 }
+      );
+    }
+    this.#bufferedMediaData = [];
+  }
+
+  #parseMediaData(input: InputBuffer): ParseResult {
+    const mediaData = this.#mediaData!;
+    if (this.#filePosition >= mediaData.end) {
+      this.#mediaData = undefined;
+      return { type: "mediaSegmentEnd", byteLength: 0 };
+    }
+    const availableEnd = Math.min(
+      this.#filePosition + input.byteLength,
+      mediaData.end
+    );
+    const frames = this.#extractProgressiveSamples(
+      input.peek(availableEnd - this.#filePosition),
+      this.#filePosition,
+      availableEnd
+    );
+    // Consume everything up to the next sample that is not yet complete.
+    const nextSample = this.#progressiveSamples[this.#nextProgressiveSample];
+    const consumedEnd =
+      nextSample === undefined
+        ? availableEnd
+        : Math.max(
+            this.#filePosition,
+            Math.min(nextSample.sample.offset, availableEnd)
+          );
+    const byteLength = consumedEnd - this.#filePosition;
+    if (frames.length > 0) {
+      return { type: "codedFrames", byteLength, frames };
+    } else if (byteLength > 0) {
+      return { type: "skip", byteLength };
+    } else {
+      return { type: "needMoreData" };
+    }
+  }
+
+  // Extracts the next samples whose data lies between start and end (as file offsets).
+  // data contains the bytes of the file starting at start.
+  #extractProgressiveSamples(
+    data: Uint8Array,
+    start: number,
+    end: number
+  ): CodedFrame[] {
+    const frames: CodedFrame[] = [];
+    while (this.#nextProgressiveSample < this.#progressiveSamples.length) {
+      const { trackId, sample } =
+        this.#progressiveSamples[this.#nextProgressiveSample];
+      if (sample.offset < start) {
+        // The data of this sample was already skipped.
+        this.#nextProgressiveSample++;
+        continue;
+      }
+      if (sample.offset + sample.size > end) {
+        break;
+      }
+      const offset = sample.offset - start;
+      const editOffset = this.#editOffsets.get(trackId) ?? 0;
+      frames.push({
+        trackId,
+        data: data.subarray(offset, offset + sample.size),
+        is_sync: sample.is_sync,
+        presentationTimestamp: sample.cts / sample.timescale - editOffset,
+        decodeTimestamp: sample.dts / sample.timescale - editOffset,
+        duration: sample.duration / sample.timescale
+      });
+      this.#nextProgressiveSample++;
+    }
+    return frames;
+  }
+
+  #startFile(): void {
+    // MP4Box only parses the initialization segment.
+    // The data must be in its own ArrayBuffer.
+    this.#isoFile = createFile();
+    this.#isoFile.appendBuffer(
+      toMP4ArrayBuffer(this.#initializationData!.buffer, 0)
+    );
+  }
+
+  #getInitializationSegment(info: Info): InitializationSegment {
+    this.#trackIds = info.tracks.map((track) => track.id);
+    this.#timescales = new Map(
+      info.tracks.map((track) => [track.id, track.timescale])
+    );
+    this.#editOffsets.clear();
+    const trackEdits = new Map<number, TrackEdit>();
+    for (const trackInfo of info.tracks) {
+      const edit = getTrackEdit(trackInfo, info.timescale);
+      if (edit !== undefined) {
+        trackEdits.set(trackInfo.id, edit);
+        this.#editOffsets.set(trackInfo.id, edit.offset);
+      }
+    }
+    const audioTracks = info.audioTracks.map(
+      (trackInfo): AudioTrackDescription => {
+        const trak = this.#isoFile!.getTrackById(trackInfo.id);
+        // The edit list already skips the priming samples, if any.
+        // Otherwise, fall back to the codec's own priming information.
+        const edit = trackEdits.get(trackInfo.id);
+        return {
+          type: "audio",
+          id: trackInfo.id,
+          ...getTrackLabels(trackInfo),
+          codecConfig: buildAudioConfig(
+            trackInfo,
+            trak,
+            this.#initializationData!
+          ),
+          primingEnd:
+            edit !== undefined
+              ? edit.presentationStart
+              : getPrimingDuration(trak)
+        };
+      }
+    );
+    const videoTracks = info.videoTracks.map(
+      (trackInfo): VideoTrackDescription => ({
+        type: "video",
+        id: trackInfo.id,
+        ...getTrackLabels(trackInfo),
+        codecConfig: buildVideoConfig(
+          trackInfo,
+          this.#isoFile!.getTrackById(trackInfo.id),
+          this.#initializationData!
+        )
+      })
+    );
+    return {
+      duration: info.duration > 0 ? info.duration / info.timescale : NaN,
+      audioTracks,
+      videoTracks
+    };
+  }
+
+  // Extracts the samples of the current movie fragment whose data lies in the given mdat box.
+  #extractCodedFrames(
+    mediaData: Uint8Array,
+    sampleEncryptions: ReadonlyMap<number, SampleEncryption[]>
+  ): CodedFrame[] {
+    const mdatStart = this.#filePosition;
+    const frames: CodedFrame[] = [];
+    // The sample encryptions of a track are numbered across all of its track fragments.
+    const sampleNumbers = new Map<number, number>();
+    for (const { trackId, hasDecodeTime, samples } of this.#trackFragments) {
+      const timescale = this.#timescales.get(trackId)!;
+      const editOffset = this.#editOffsets.get(trackId) ?? 0;
+      const baseDecodeTime = hasDecodeTime
+        ? 0
+        : this.#nextDecodeTimes.get(trackId) ?? 0;
+      let sampleNumber = sampleNumbers.get(trackId) ?? 0;
+      for (const sample of samples) {
+        const encryption = sampleEncryptions.get(trackId)?.[sampleNumber];
+        sampleNumber++;
+        const start = sample.offset - mdatStart;
+        if (start < 0 || start + sample.size > mediaData.byteLength) {
+          // The sample data is not in this mdat.
+          continue;
+        }
+        const decodeTime = baseDecodeTime + sample.decodeTime;
+        frames.push({
+          trackId,
+          data: mediaData.subarray(start, start + sample.size),
+          is_sync: sample.isSync,
+          presentationTimestamp:
+            (decodeTime + sample.compositionTimeOffset) / timescale -
+            editOffset,
+          decodeTimestamp: decodeTime / timescale - editOffset,
+          duration: sample.duration / timescale,
+          encryption
+        });
+      }
+      sampleNumbers.set(trackId, sampleNumber);
+      const lastSample = samples.at(-1);
+      if (lastSample !== undefined) {
+        this.#nextDecodeTimes.set(
+          trackId,
+          baseDecodeTime + lastSample.decodeTime + lastSample.duration
+        );
+      }
+    }
+    return frames;
+  }
+}
+
+function getTrackExtends(
+  moovPayload: Uint8Array
+): Map<number, TrackExtends> | undefined {
+  const mvex = readChildBoxes(moovPayload).find((box) => box.type === "mvex");
+  return mvex !== undefined ? parseMovieExtends(mvex.payload) : undefined;
+}
+
+function parseEventMessage(
+  payload: Uint8Array
+): PendingEventMessage | undefined {
+  // https://www.iso.org/standard/83314.html (ISO/IEC 23009-1, 5.10.3.3)
+  const view = new DataView(
+    payload.buffer,
+    payload.byteOffset,
+    payload.byteLength
+  );
+  let position = 4; // version and flags
+  const readString = (): string | undefined => {
+    const end = payload.indexOf(0, position);
+    if (end < 0) {
+      return undefined;
+    }
+    const string = new TextDecoder().decode(payload.subarray(position, end));
+    position = end + 1;
+    return string;
+  };
+  const version = payload[0];
+  let schemeIdUri: string | undefined;
+  let value: string | undefined;
+  let timescale: number;
+  let presentationTime: number;
+  let eventDuration: number;
+  let id: number;
+  try {
+    if (version === 0) {
+      schemeIdUri = readString();
+      value = readString();
+      timescale = view.getUint32(position);
+      presentationTime = view.getUint32(position + 4);
+      eventDuration = view.getUint32(position + 8);
+      id = view.getUint32(position + 12);
+      position += 16;
+    } else if (version === 1) {
+      timescale = view.getUint32(position);
+      presentationTime = Number(view.getBigUint64(position + 4));
+      eventDuration = view.getUint32(position + 12);
+      id = view.getUint32(position + 16);
+      position += 20;
+      schemeIdUri = readString();
+      value = readString();
+    } else {
+      return undefined;
+    }
+  } catch {
+    // The box is too short.
+    return undefined;
+  }
+  if (schemeIdUri === undefined || value === undefined || timescale === 0) {
+    return undefined;
+  }
+  return {
+    message: {
+      schemeIdUri,
+      value,
+      id,
+      presentationTime: presentationTime / timescale,
+      // A duration of 0xFFFFFFFF means that the duration is unknown.
+      duration:
+        eventDuration === 0xffffffff ? Infinity : eventDuration / timescale,
+      messageData: payload.slice(position)
+    },
+    // Version 0 uses a presentation time delta, relative to the media segment.
+    isRelative: version === 0
+  };
+}
+
+function getProtectionSystemData(payload: Uint8Array): Uint8Array | undefined {
+  // https://www.w3.org/TR/eme-initdata-cenc/#format
+  // The initialization data is the concatenation of all "pssh" boxes,
+  // including their headers.
+  const psshBoxes = readChildBoxes(payload)
+    .filter((box) => box.type === "pssh")
+    .map((box) => payload.subarray(box.offset, box.offset + box.size));
+  return psshBoxes.length > 0 ? psshBoxes.reduce(concatUint8Arrays) : undefined;
+}
+
+function readTrackFragmentEncryptions(
+  boxes: ChildBox[],
+  baseDataOffset: number,
+  readFileData: (start: number, length: number) => Uint8Array | undefined,
+  track: TrackEncryption
+): SampleEncryption[] | undefined {
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.8.8)
+  let sampleCount = 0;
+  for (const box of boxes) {
+    if (box.type === "trun" && box.payload.byteLength >= 8) {
+      sampleCount += toDataView(box.payload).getUint32(4);
+    }
+  }
+  let samples: SampleEncryption[] | undefined;
+  const senc = findBoxPayload(boxes, "senc");
+  const saiz = findBoxPayload(boxes, "saiz");
+  const saio = findBoxPayload(boxes, "saio");
+  if (senc !== undefined && senc.byteLength >= 8) {
+    // https://www.iso.org/standard/84637.html (ISO/IEC 23001-7, 7.2.1)
+    const view = toDataView(senc);
+    const hasSubsamples = (view.getUint32(0) & 0x000002) !== 0;
+    const sizes = new Array<undefined>(view.getUint32(4)).fill(undefined);
+    samples = readSampleEncryptions(
+      senc.subarray(8),
+      sizes,
+      hasSubsamples,
+      track
+    );
+  } else if (saiz !== undefined && saio !== undefined) {
+    // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.7.8 and 8.7.9)
+    const sizes = parseSampleAuxiliaryInformationSizes(saiz);
+    const offset = parseSampleAuxiliaryInformationOffset(saio);
+    if (sizes === undefined || offset === undefined) {
+      return undefined;
+    }
+    const totalSize = sumWith(sizes, (size) => size);
+    const data = readFileData(baseDataOffset + offset, totalSize);
+    if (data === undefined) {
+      return undefined;
+    }
+    samples = readSampleEncryptions(data, sizes, false, track);
+  }
+  if (samples === undefined || samples.length !== sampleCount) {
+    return undefined;
+  }
+  return samples;
+}
+
+function parseSampleAuxiliaryInformationSizes(
+  payload: Uint8Array
+): number[] | undefined {
+  const view = toDataView(payload);
+  // Skip the aux_info_type and aux_info_type_parameter.
+  let position = view.getUint32(0) & 0x000001 ? 12 : 4;
+  if (payload.byteLength < position + 5) {
+    return undefined;
+  }
+  const defaultSampleInfoSize = view.getUint8(position);
+  const sampleCount = view.getUint32(position + 1);
+  position += 5;
+  if (defaultSampleInfoSize !== 0) {
+    return new Array<number>(sampleCount).fill(defaultSampleInfoSize);
+  }
+  if (payload.byteLength < position + sampleCount) {
+    return undefined;
+  }
+  return [...payload.subarray(position, position + sampleCount)];
+}
+
+function parseSampleAuxiliaryInformationOffset(
+  payload: Uint8Array
+): number | undefined {
+  const view = toDataView(payload);
+  const version = view.getUint8(0);
+  // Skip the aux_info_type and aux_info_type_parameter.
+  const position = view.getUint32(0) & 0x000001 ? 12 : 4;
+  // A track fragment has a single offset, since its sample auxiliary information
+  // is stored contiguously.
+  if (payload.byteLength < position + (version === 0 ? 8 : 12)) {
+    return undefined;
+  }
+  if (view.getUint32(position) !== 1) {
+    return undefined;
+  }
+  return version === 0
+    ? view.getUint32(position + 4)
+    : Number(view.getBigUint64(position + 4));
+}
+
+function findBoxPayload(
+  boxes: ChildBox[],
+  type: string
+): Uint8Array | undefined {
+  return boxes.find((box) => box.type === type)?.payload;
+}
+
+function toDataView(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function parseSegmentIndex(
+  payload: Uint8Array,
+  anchorPoint: number
+): IndexReference[] | undefined {
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.16.3)
+  const view = new DataView(
+    payload.buffer,
+    payload.byteOffset,
+    payload.byteLength
+  );
+  const version = payload[0];
+  const headerLength = version === 0 ? 24 : 32;
+  if (payload.byteLength < headerLength) {
+    return undefined;
+  }
+  const timescale = view.getUint32(8);
+  let earliestPresentationTime: number;
+  let firstOffset: number;
+  if (version === 0) {
+    earliestPresentationTime = view.getUint32(12);
+    firstOffset = view.getUint32(16);
+  } else {
+    earliestPresentationTime = Number(view.getBigUint64(12));
+    firstOffset = Number(view.getBigUint64(20));
+  }
+  const referenceCount = view.getUint16(headerLength - 2);
+  if (
+    timescale === 0 ||
+    payload.byteLength < headerLength + referenceCount * 12
+  ) {
+    return undefined;
+  }
+  const references: IndexReference[] = [];
+  let time = earliestPresentationTime;
+  let offset = anchorPoint + firstOffset;
+  for (let i = 0; i < referenceCount; i++) {
+    const position = headerLength + i * 12;
+    const referenceTypeAndSize = view.getUint32(position);
+    const subsegmentDuration = view.getUint32(position + 4);
+    const sap = view.getUint32(position + 8);
+    const referencedSize = referenceTypeAndSize & 0x7fffffff;
+    references.push({
+      startTime: time / timescale,
+      endTime: (time + subsegmentDuration) / timescale,
+      startByte: offset,
+      endByte: offset + referencedSize,
+      startsWithSap: (sap & 0x80000000) !== 0,
+      // A reference type of 1 points to another segment index box.
+      referencesIndex: (referenceTypeAndSize & 0x80000000) !== 0
+    });
+    time += subsegmentDuration;
+    offset += referencedSize;
+  }
+  return references;
+}
+
+function toMP4ArrayBuffer(ab: ArrayBuffer, fileStart: number): MP4ArrayBuffer {
+  return Object.assign(ab, { fileStart });
+}
+
+function buildAudioConfig(
+  info: AudioTrackInfo,
+  trak: TrakBox,
+  initializationData: Uint8Array
+): AudioDecoderConfig {
+  const config: AudioDecoderConfig = {
+    codec: getCodecString(info, trak),
+    numberOfChannels: info.audio.channel_count,
+    sampleRate: info.audio.sample_rate
+  };
+  const entries = trak.mdia.minf.stbl.stsd.entries;
+  const opusEntry = entries.find(isOpusEntry);
+  const flacEntry = entries.find(isFlacEntry);
+  const ac3Entry = entries.find(isAc3Entry);
+  if (opusEntry) {
+    // https://www.w3.org/TR/webcodecs-opus-codec-registration/
+    config.codec = "opus";
+    config.numberOfChannels = opusEntry.dOps.OutputChannelCount;
+    config.description = createOpusIdentificationHeader(opusEntry);
+  } else if (flacEntry) {
+    // https://www.w3.org/TR/webcodecs-flac-codec-registration/
+    config.codec = "flac";
+    config.sampleRate = flacEntry.dfLa.samplerate;
+    config.description = createFlacDescription(flacEntry, initializationData);
+  } else if (ac3Entry) {
+    // https://www.w3.org/TR/webcodecs-ac3-codec-registration/
+    // https://www.w3.org/TR/webcodecs-eac3-codec-registration/
+    // AC-3 and E-AC-3 do not use a description.
+    config.codec = getSampleEntryFormat(ac3Entry);
+  } else {
+    config.description = getAudioSpecificConfig(trak);
+  }
+  return config;
+}
+
+function buildVideoConfig(
+  info: VideoTrackInfo,
+  trak: TrakBox,
+  initializationData: Uint8Array
+): VideoDecoderConfig {
+  const config: VideoDecoderConfig = {
+    codec: getCodecString(info, trak),
+    codedWidth: info.video.width,
+    codedHeight: info.video.height
+  };
+  const entries = trak.mdia.minf.stbl.stsd.entries;
+  const hvcEntry = entries.find(isHvcEntry);
+  const vp09Entry = entries.find(isVp09Entry);
+  const av01Entry = entries.find(isAv01Entry);
+  if (hvcEntry) {
+    // https://www.w3.org/TR/webcodecs-hevc-codec-registration/#videodecoderconfig-description
+    config.description = getBoxPayload(hvcEntry.hvcC, initializationData);
+  } else if (vp09Entry) {
+    // https://www.w3.org/TR/webcodecs-vp9-codec-registration/#videodecoderconfig-description
+    // VP9 does not use a description.
+    config.codec = getVp9CodecString(vp09Entry);
+  } else if (av01Entry) {
+    // https://www.w3.org/TR/webcodecs-av1-codec-registration/#videodecoderconfig-description
+    config.codec = getAv1CodecString(av01Entry);
+    config.description = getBoxPayload(av01Entry.av1C, initializationData);
+  } else {
+    config.description = createAvcDecoderConfigurationRecord(trak);
+  }
+  return config;
+}
+
+function getTrackLabels(
+  trackInfo: TrackInfo
+): Pick<TrackDescription, "kind" | "label" | "language"> {
+  // https://dev.w3.org/html5/html-sourcing-inband-tracks/#mpeg4
+  // The kind is only known for tracks that use the HTML kind scheme.
+  const kind =
+    trackInfo.kind.schemeURI === "about:html-kind" ? trackInfo.kind.value : "";
+  // The language comes from the mdhd box. If it is "und", use an empty string instead.
+  const language = trackInfo.language === "und" ? "" : trackInfo.language;
+  // The label comes from the name in the hdlr box.
+  return { kind, label: trackInfo.name, language };
+}
+
+function getSampleEntry(trak: TrakBox): Box {
+  return trak.mdia.minf.stbl.stsd.entries[0];
+}
+
+// Returns the type of a sample entry,
+// or its original type if it is an encrypted sample entry.
+function getSampleEntryFormat(entry: Box): string {
+  return (
+    (entry as EncryptedSampleEntry).sinfs?.[0]?.frma?.data_format ?? entry.type
+  );
+}
+
+function getCodecString(info: TrackInfo, trak: TrakBox): string {
+  const entry = getSampleEntry(trak);
+  const format = getSampleEntryFormat(entry);
+  if (format === entry.type) {
+    return info.codec;
+  }
+  // MP4Box derives the codec string of an encrypted sample entry from its type,
+  // so use the codec string of its original type instead.
+  const sampleEntryCtor =
+    (
+      BoxParser as unknown as Record<string, SampleEntryConstructor | undefined>
+    )[`${format}SampleEntry`] ?? BoxParser.SampleEntry;
+  const codec = sampleEntryCtor.prototype.getCodec.call(entry);
+  return format + codec.slice(entry.type.length);
+}
+
+function isAvcEntry(entry: Box): entry is AvcBox {
+  return (entry as AvcBox).avcC !== undefined;
+}
+
+function isHvcEntry(entry: Box): entry is HvcBox {
+  return (entry as HvcBox).hvcC !== undefined;
+}
+
+function isVp09Entry(entry: Box): entry is Vp09Box {
+  return (entry as Vp09Box).vpcC !== undefined;
+}
+
+function isAv01Entry(entry: Box): entry is Av01Box {
+  return (entry as Av01Box).av1C !== undefined;
+}
+
+function isMp4aEntry(entry: Box): entry is Mp4aBox {
+  return getSampleEntryFormat(entry) === "mp4a";
+}
+
+function isOpusEntry(entry: Box): entry is OpusBox {
+  return (entry as OpusBox).dOps !== undefined;
+}
+
+function isFlacEntry(entry: Box): entry is FlacBox {
+  return (entry as FlacBox).dfLa !== undefined;
+}
+
+function isAc3Entry(entry: Box): entry is Ac3Box | Ec3Box {
+  const format = getSampleEntryFormat(entry);
+  return format === "ac-3" || format === "ec-3";
+}
+
+function createAvcDecoderConfigurationRecord(
+  trak: TrakBox
+): Uint8Array | undefined {
+  // https://www.w3.org/TR/webcodecs-avc-codec-registration/#videodecoderconfig-description
+  const avcC = trak.mdia.minf.stbl.stsd.entries.find(isAvcEntry)?.avcC;
+  if (!avcC) {
+    return undefined;
+  }
+  const stream = new DataStream(undefined, 0, DataStream.BIG_ENDIAN);
+  avcC.write(stream);
+  return new Uint8Array(stream.buffer, 8); // remove the box header
+}
+
+function createOpusIdentificationHeader(entry: OpusBox): Uint8Array {
+  // https://www.opus-codec.org/docs/opus_in_isobmff.html#4.3.2
+  // https://www.rfc-editor.org/rfc/rfc7845#section-5.1
+  const dOps = entry.dOps;
+  const channelMapping = dOps.ChannelMappingFamily !== 0;
+  const header = new Uint8Array(
+    19 + (channelMapping ? 2 + dOps.OutputChannelCount : 0)
+  );
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode("OpusHead"), 0);
+  view.setUint8(8, 1); // version
+  view.setUint8(9, dOps.OutputChannelCount);
+  // Unlike the dOps box, the identification header is little endian.
+  view.setUint16(10, dOps.PreSkip, true);
+  view.setUint32(12, dOps.InputSampleRate, true);
+  view.setInt16(16, dOps.OutputGain, true);
+  view.setUint8(18, dOps.ChannelMappingFamily);
+  if (channelMapping) {
+    view.setUint8(19, dOps.StreamCount!);
+    view.setUint8(20, dOps.CoupledCount!);
+    header.set(dOps.ChannelMapping!, 21);
+  }
+  return header;
+}
+
+function createFlacDescription(
+  entry: FlacBox,
+  initializationData: Uint8Array
+): Uint8Array {
+  // https://github.com/xiph/flac/blob/master/doc/isoflac.txt
+  // The description is the "fLaC" marker followed by the metadata blocks,
+  // which the dfLa box stores after its version and flags.
+  const metadataBlocks = getBoxPayload(entry.dfLa, initializationData).slice(4);
+  return concatUint8Arrays(new TextEncoder().encode("fLaC"), metadataBlocks);
+}
+
+// The mapping from media time to presentation time, from a track's edit list.
+interface TrackEdit {
+  // The offset (in seconds) to subtract from the media time.
+  offset: number;
+  // The presentation time (in seconds) at which the media starts.
+  presentationStart: number;
+}
+
+function getTrackEdit(
+  trackInfo: TrackInfo,
+  movieTimescale: number
+): TrackEdit | undefined {
+  // https://www.iso.org/standard/83102.html (ISO/IEC 14496-12, 8.6.6)
+  // Only leading empty edits followed by a single media edit are supported,
+  // which is how encoder delay and composition offsets are compensated.
+  // Any later edits are ignored.
+  let emptyDuration = 0;
+  for (const edit of trackInfo.edits ?? []) {
+    if (edit.media_time === -1) {
+      // An empty edit delays the start of the media.
+      emptyDuration += edit.segment_duration / movieTimescale;
+      continue;
+    }
+    return {
+      offset: edit.media_time / trackInfo.timescale - emptyDuration,
+      presentationStart: emptyDuration
+    };
+  }
+  return undefined;
+}
+
+function getPrimingDuration(trak: TrakBox): number {
+  // https://www.opus-codec.org/docs/opus_in_isobmff.html#4.3.2
+  // The pre-skip is the number of samples at 48 kHz to discard from the decoder output.
+  const opusEntry = trak.mdia.minf.stbl.stsd.entries.find(isOpusEntry);
+  return opusEntry ? opusEntry.dOps.PreSkip / 48000 : 0;
+}
+
+function getBoxPayload(box: Box, fileData: Uint8Array): Uint8Array {
+  // MP4Box cannot write all boxes back, so copy the original bytes instead.
+  return fileData.slice(box.start + box.hdr_size, box.start + box.size);
+}
+
+function getVp9CodecString(entry: Vp09Box): string {
+  // https://www.webmproject.org/vp9/mp4/#codecs-parameter-string
+  const vpcC = entry.vpcC;
+  const fields = [vpcC.profile, vpcC.level, vpcC.bitDepth];
+  if (vpcC.version === 1) {
+    fields.push(
+      vpcC.chromaSubsampling,
+      vpcC.colourPrimaries!,
+      vpcC.transferCharacteristics!,
+      vpcC.matrixCoefficients!,
+      vpcC.videoFullRangeFlag
+    );
+  }
+  return [
+    getSampleEntryFormat(entry),
+    ...fields.map((field) => `${field}`.padStart(2, "0"))
+  ].join(".");
+}
+
+function getAv1CodecString(entry: Av01Box): string {
+  // https://aomediacodec.github.io/av1-isobmff/#codecsparam
+  const av1C = entry.av1C;
+  const level = `${av1C.seq_level_idx_0}`.padStart(2, "0");
+  const tier = av1C.seq_tier_0 ? "H" : "M";
+  let bitDepth = 8;
+  if (av1C.high_bitdepth) {
+    bitDepth = av1C.seq_profile === 2 && av1C.twelve_bit ? 12 : 10;
+  }
+  return [
+    getSampleEntryFormat(entry),
+    av1C.seq_profile,
+    `${level}${tier}`,
+    `${bitDepth}`.padStart(2, "0"),
+    av1C.monochrome,
+    `${av1C.chroma_subsampling_x}${av1C.chroma_subsampling_y}${av1C.chroma_sample_position}`
+  ].join(".");
+}
+
+function getAudioSpecificConfig(trak: TrakBox): Uint8Array | undefined {
+  const descriptor =
+    trak.mdia.minf.stbl.stsd.entries.find(isMp4aEntry)?.esds.esd.descs[0];
+  if (!descriptor) {
+    return undefined;
+  }
+  // 0x04 is the DecoderConfigDescrTag. Assuming MP4Box always puts this at position 0.
+  console.assert(descriptor.tag == 0x04);
+  // 0x40 is the Audio OTI, per table 5 of ISO 14496-1
+  console.assert(descriptor.oti == 0x40);
+  // 0x05 is the DecSpecificInfoTag
+  console.assert(descriptor.descs[0].tag == 0x05);
+  return descriptor.descs[0].data;
+}
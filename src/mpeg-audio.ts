@@ -0,0 +1,119 @@
+// http://www.mp3-tech.org/programmer/frame_header.html
+export const MPEG_AUDIO_HEADER_LENGTH = 4;
+
+const enum MpegVersion {
+  MPEG_2_5 = 0,
+  MPEG_2 = 2,
+  MPEG_1 = 3
+}
+
+const enum MpegLayer {
+  LAYER_3 = 1,
+  LAYER_2 = 2,
+  LAYER_1 = 3
+}
+
+// Bitrates (in kbit/s) by bitrate index, for each version and layer.
+const BITRATES_V1_L1: readonly number[] = [
+  0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448
+];
+const BITRATES_V1_L2: readonly number[] = [
+  0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384
+];
+const BITRATES_V1_L3: readonly number[] = [
+  0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320
+];
+const BITRATES_V2_L1: readonly number[] = [
+  0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256
+];
+const BITRATES_V2_L2_L3: readonly number[] = [
+  0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160
+];
+
+// Sample rates for MPEG-1. These are halved for MPEG-2, and quartered for MPEG-2.5.
+const SAMPLE_RATES_V1: readonly number[] = [44100, 48000, 32000];
+
+export interface MpegAudioHeader {
+  // The length of the whole frame, including the header.
+  frameLength: number;
+  sampleRate: number;
+  numberOfChannels: number;
+  // The number of samples (per channel) in this frame.
+  sampleCount: number;
+  codec: string;
+}
+
+// Reads the MPEG audio frame header at the start of data.
+// Returns undefined if data does not start with a valid frame header.
+export function readMpegAudioHeader(
+  data: Uint8Array
+): MpegAudioHeader | undefined {
+  if (data.byteLength < MPEG_AUDIO_HEADER_LENGTH) {
+    return undefined;
+  }
+  // The header starts with an 11-bit frame sync.
+  if (data[0] !== 0xff || (data[1] & 0xe0) !== 0xe0) {
+    return undefined;
+  }
+  const version: number = (data[1] >> 3) & 0x03;
+  const layer: number = (data[1] >> 1) & 0x03;
+  const bitrateIndex = data[2] >> 4;
+  const sampleRateIndex = (data[2] >> 2) & 0x03;
+  const padding = (data[2] >> 1) & 0x01;
+  const channelMode = data[3] >> 6;
+  // Reject reserved values and free format streams.
+  if (
+    version === 1 ||
+    layer === 0 ||
+    bitrateIndex === 0 ||
+    bitrateIndex === 15 ||
+    sampleRateIndex === 3
+  ) {
+    return undefined;
+  }
+  const isMpeg1 = version === MpegVersion.MPEG_1;
+  let bitrateTable: readonly number[];
+  if (layer === MpegLayer.LAYER_1) {
+    bitrateTable = isMpeg1 ? BITRATES_V1_L1 : BITRATES_V2_L1;
+  } else if (isMpeg1) {
+    bitrateTable =
+      layer === MpegLayer.LAYER_2 ? BITRATES_V1_L2 : BITRATES_V1_L3;
+  } else {
+    bitrateTable = BITRATES_V2_L2_L3;
+  }
+  const bitrate = bitrateTable[bitrateIndex] * 1000;
+  let sampleRate = SAMPLE_RATES_V1[sampleRateIndex];
+  if (version === MpegVersion.MPEG_2) {
+    sampleRate /= 2;
+  } else if (version === MpegVersion.MPEG_2_5) {
+    sampleRate /= 4;
+  }
+  let sampleCount: number;
+  let frameLength: number;
+  if (layer === MpegLayer.LAYER_1) {
+    // Layer I frames consist of 4-byte slots.
+    sampleCount = 384;
+    frameLength = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else {
+    sampleCount = layer === MpegLayer.LAYER_3 && !isMpeg1 ? 576 : 1152;
+    frameLength =
+      Math.floor((sampleCount / 8) * (bitrate / sampleRate)) + padding;
+  }
+  // https://www.w3.org/TR/webcodecs-mp3-codec-registration/
+  // Layer I and II streams use the MPEG-4 object type indications
+  // for MPEG-1 and MPEG-2 audio instead.
+  let codec: string;
+  if (layer === MpegLayer.LAYER_3) {
+    codec = "mp3";
+  } else {
+    codec = isMpeg1 ? "mp4a.6B" : "mp4a.69";
+  }
+  return {
+    frameLength,
+    sampleRate,
+    // Channel mode 3 is single channel, all others are stereo.
+    numberOfChannels: channelMode === 3 ? 1 : 2,
+    sampleCount,
+    codec
+  };
+}
@@ -0,0 +1,53 @@
+// A subsegment of a media file, as described by a segment index.
+export interface SegmentReference {
+  // The presentation time range (in seconds) of the subsegment,
+  // as stored in the media segments.
+  startTime: number;
+  endTime: number;
+  // The byte range of the subsegment, as offsets from the anchor point of the index,
+  // which is the first byte after the top-level "sidx" box.
+  // Add the file offset of the anchor point to get the HTTP Range header,
+  // which is `bytes=${anchor + startByte}-${anchor + endByte - 1}` since the end is exclusive.
+  startByte: number;
+  endByte: number;
+  // Whether the subsegment starts with a stream access point, such as a key frame.
+  startsWithSap: boolean;
+}
+
+// The subsegments of a media file, from its "sidx" boxes.
+// A streaming layer can use this to fetch the subsegment for a given time
+// with an HTTP Range request, instead of fetching the whole file.
+export class SegmentIndex implements Iterable<SegmentReference> {
+  readonly #references: ReadonlyArray<SegmentReference>;
+
+  constructor(references: ReadonlyArray<SegmentReference>) {
+    this.#references = references;
+  }
+
+  get length(): number {
+    return this.#references.length;
+  }
+
+  get startTime(): number {
+    return this.#references[0]?.startTime ?? NaN;
+  }
+
+  get endTime(): number {
+    return this.#references[this.#references.length - 1]?.endTime ?? NaN;
+  }
+
+  get(index: number): SegmentReference | undefined {
+    return this.#references[index];
+  }
+
+  [Symbol.iterator](): IterableIterator<SegmentReference> {
+    return this.#references.values();
+  }
+
+  // Returns the subsegment that contains the given time.
+  find(time: number): SegmentReference | undefined {
+    return this.#references.find(
+      (reference) => reference.startTime <= time && time < reference.endTime
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { BabySourceBuffer } from "./source-buffer";
+import { arrayRemove, queueTask } from "./util";
+
+export let getSourceBuffers: (
+  sourceBufferList: BabySourceBufferList
+) => readonly BabySourceBuffer[];
+export let addSourceBufferToList: (
+  sourceBufferList: BabySourceBufferList,
+  sourceBuffer: BabySourceBuffer
+) => void;
+export let removeSourceBufferFromList: (
+  sourceBufferList: BabySourceBufferList,
+  sourceBuffer: BabySourceBuffer
+) => void;
+
+export class BabySourceBufferList
+  extends EventTarget
+  implements Iterable<BabySourceBuffer>
+{
+  readonly [index: number]: BabySourceBuffer;
+  readonly #sourceBuffers: BabySourceBuffer[] = [];
+
+  get length(): number {
+    return this.#sourceBuffers.length;
+  }
+
+  [Symbol.iterator](): IterableIterator<BabySourceBuffer> {
+    return this.#sourceBuffers.values();
+  }
+
+  #add(sourceBuffer: BabySourceBuffer): void {
+    const index = this.#sourceBuffers.length;
+    this.#sourceBuffers.push(sourceBuffer);
+    // Expose the new source buffer through an indexed getter.
+    Object.defineProperty(this, index, {
+      configurable: true,
+      enumerable: true,
+      get: () => this.#sourceBuffers[index]
+    });
+    queueTask(() => this.dispatchEvent(new Event("addsourcebuffer")));
+  }
+
+  #remove(sourceBuffer: BabySourceBuffer): void {
+    if (!this.#sourceBuffers.includes(sourceBuffer)) {
+      return;
+    }
+    arrayRemove(this.#sourceBuffers, sourceBuffer);
+    // The list has become shorter, so remove the last indexed getter.
+    delete (this as Record<number, BabySourceBuffer>)[
+      this.#sourceBuffers.length
+    ];
+    queueTask(() => this.dispatchEvent(new Event("removesourcebuffer")));
+  }
+
+  static {
+    getSourceBuffers = (sourceBufferList) => sourceBufferList.#sourceBuffers;
+    addSourceBufferToList = (sourceBufferList, sourceBuffer) =>
+      sourceBufferList.#add(sourceBuffer);
+    removeSourceBufferFromList = (sourceBufferList, sourceBuffer) =>
+      sourceBufferList.#remove(sourceBuffer);
+  }
+}
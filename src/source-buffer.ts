@@ -1,40 +1,46 @@
-import { concatUint8Arrays, queueTask, toUint8Array } from "./util";
+import { queueTask, toUint8Array, waitForEvent } from "./util";
 import {
-  AudioTrackInfo,
-  AvcBox,
-  Box,
-  BoxParser,
-  createFile,
-  DataStream,
-  Info,
-  ISOFile,
-  Mp4aBox,
-  MP4ArrayBuffer,
-  MP4BoxStream,
-  Sample,
-  TrackInfo,
-  TrakBox,
-  VideoTrackInfo
-} from "mp4box";
-import type { BabyMediaSource } from "./media-source";
+  AudioTrackDescription,
+  ByteStreamParser,
+  CodedFrame,
+  createByteStreamParser,
+  EventMessage,
+  InitializationSegment,
+  TrackDescription,
+  VideoTrackDescription
+} from "./byte-stream-format";
 import {
+  activateSourceBuffer,
+  BabyMediaSource,
   durationChange,
   endOfStream,
+  getBuffered,
   getMediaElement,
   hasSomeBuffer,
-  openIfEnded
+  openIfEnded,
+  trackStateChanged
 } from "./media-source";
 import {
   AudioTrackBuffer,
+  EvictionCandidate,
   TrackBuffer,
   VideoTrackBuffer
 } from "./track-buffer";
+import { MediaReadyState } from "./attachment";
+import { setEndTimeOnLastRange, TimeRange, TimeRanges } from "./time-ranges";
+import { getSourceBuffers } from "./source-buffer-list";
+import { SegmentIndex } from "./segment-index";
+import { InputBuffer } from "./input-buffer";
 import {
-  MediaReadyState,
-  notifyProgress,
-  updateReadyState
-} from "./video-element";
-import { setEndTimeOnLastRange, TimeRanges } from "./time-ranges";
+  addTrackToList,
+  BabyAudioTrack,
+  BabyAudioTrackList,
+  BabyMediaTrack,
+  BabyVideoTrack,
+  BabyVideoTrackList,
+  MediaTrackInit,
+  observeTrack
+} from "./track-list";
 
 export let getVideoTrackBuffer: (
   sourceBuffer: BabySourceBuffer
@@ -42,36 +48,275 @@ export let getVideoTrackBuffer: (
 export let getAudioTrackBuffer: (
   sourceBuffer: BabySourceBuffer
 ) => AudioTrackBuffer | undefined;
+export let abortBufferAppend: (sourceBuffer: BabySourceBuffer) => void;
+export let destroySourceBuffer: (sourceBuffer: BabySourceBuffer) => void;
+export let flushSourceBuffer: (sourceBuffer: BabySourceBuffer) => void;
+
+export type AppendMode = "segments" | "sequence";
+
+export interface SourceBufferOperationOptions {
+  signal?: AbortSignal;
+}
+
+// Default buffer quota (in bytes), similar to the limits used by browsers.
+const DEFAULT_AUDIO_BUFFER_QUOTA: number = 12 * 1024 * 1024;
+const DEFAULT_VIDEO_BUFFER_QUOTA: number = 150 * 1024 * 1024;
+
+enum AppendState {
+  WAITING_FOR_SEGMENT,
+  PARSING_INIT_SEGMENT,
+  PARSING_MEDIA_SEGMENT
+}
 
 export class BabySourceBuffer extends EventTarget {
   readonly #parent: BabyMediaSource;
-  #inputBuffer: Uint8Array = new Uint8Array(0);
+  readonly #inputBuffer: InputBuffer = new InputBuffer();
+  #appendState: AppendState = AppendState.WAITING_FOR_SEGMENT;
+  #mode: AppendMode;
+  #generateTimestamps: boolean;
+  #groupStartTimestamp: number | undefined = undefined;
+  #groupEndTimestamp: number = 0;
+  #timestampOffset: number = 0;
+  #appendWindowStart: number = 0;
+  #appendWindowEnd: number = +Infinity;
   #updating: boolean = false;
+  #appendAbortController: AbortController = new AbortController();
+  #bufferQuota: number;
+  #bufferFull: boolean = false;
+  #pendingOperation: Promise<void> = Promise.resolve();
   #firstInitializationSegmentReceived = false;
+  #pendingInitializationSegmentForChangeType = false;
   #trackBuffers: TrackBuffer[] = [];
+  readonly #trackBuffersByTrack: Map<BabyMediaTrack, TrackBuffer> = new Map();
+  // The end of the priming samples at the start of each audio track,
+  // which must be discarded after decoding.
+  readonly #primingEnds: Map<TrackBuffer, number> = new Map();
+  readonly #audioTracks: BabyAudioTrackList = new BabyAudioTrackList();
+  readonly #videoTracks: BabyVideoTrackList = new BabyVideoTrackList();
+  #parser: ByteStreamParser;
+  #initializationSegment: InitializationSegment | undefined = undefined;
+  #segmentIndex: SegmentIndex | null = null;
 
-  // MP4 specific things
-  #initializationData: Uint8Array | undefined = undefined;
-  #isoFile: ISOFile | undefined = undefined;
-  #isoFilePosition: number = 0;
-  #mp4Info: Info | undefined = undefined;
-
-  constructor(parent: BabyMediaSource) {
+  constructor(parent: BabyMediaSource, type: string) {
     super();
     this.#parent = parent;
+    this.#bufferQuota = type.startsWith("audio/")
+      ? DEFAULT_AUDIO_BUFFER_QUOTA
+      : DEFAULT_VIDEO_BUFFER_QUOTA;
+    // https://w3c.github.io/media-source/#dom-mediasource-addsourcebuffer
+    // 6. Set [[generate timestamps flag]] to the value in the "Generate Timestamps Flag" column
+    //    of the byte stream format registry entry that is associated with type.
+    this.#parser = createByteStreamParser(type);
+    this.#generateTimestamps = this.#parser.generateTimestamps;
+    // 7. If [[generate timestamps flag]] equals true, then set the mode attribute to "sequence".
+    //    Otherwise, set the mode attribute to "segments".
+    this.#mode = this.#generateTimestamps ? "sequence" : "segments";
+  }
+
+  get mode(): AppendMode {
+    return this.#mode;
+  }
+
+  set mode(mode: AppendMode) {
+    // https://w3c.github.io/media-source/#dom-sourcebuffer-mode
+    if (mode !== "segments" && mode !== "sequence") {
+      throw new TypeError(`Invalid append mode: ${mode}`);
+    }
+    // 1. If this object has been removed from the sourceBuffers attribute of the parent media source,
+    //    then throw an InvalidStateError exception and abort these steps.
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
+      throw new DOMException("Source buffer was removed", "InvalidStateError");
+    }
+    // 2. If the updating attribute equals true, then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (this.#updating) {
+      throw new DOMException(
+        "Source buffer must not be updating",
+        "InvalidStateError"
+      );
+    }
+    // 3. If [[generate timestamps flag]] equals true and new mode equals "segments",
+    //    then throw a TypeError exception and abort these steps.
+    if (this.#generateTimestamps && mode === "segments") {
+      throw new TypeError("Byte stream format does not support segments mode");
+    }
+    // 4. If the readyState attribute of the parent media source is in the "ended" state
+    //    then run the following steps...
+    openIfEnded(this.#parent);
+    // 5. If the [[append state]] equals PARSING_MEDIA_SEGMENT, then throw an InvalidStateError
+    //    and abort these steps.
+    if (this.#appendState === AppendState.PARSING_MEDIA_SEGMENT) {
+      throw new DOMException(
+        "Source buffer must not be parsing a media segment",
+        "InvalidStateError"
+      );
+    }
+    // 6. If the new mode equals "sequence", then set the [[group start timestamp]]
+    //    to the [[group end timestamp]].
+    if (mode === "sequence") {
+      this.#groupStartTimestamp = this.#groupEndTimestamp;
+    }
+    // 7. Update the attribute to new mode.
+    this.#mode = mode;
   }
 
   get updating(): boolean {
     return this.#updating;
   }
 
+  get timestampOffset(): number {
+    return this.#timestampOffset;
+  }
+
+  set timestampOffset(timestampOffset: number) {
+    // https://w3c.github.io/media-source/#dom-sourcebuffer-timestampoffset
+    timestampOffset = Number(timestampOffset);
+    if (!Number.isFinite(timestampOffset)) {
+      throw new TypeError("Timestamp offset must be a finite number");
+    }
+    // 1. Let new timestamp offset equal the new value being assigned to this attribute.
+    // 2. If this object has been removed from the sourceBuffers attribute of the parent media source,
+    //    then throw an InvalidStateError exception and abort these steps.
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
+      throw new DOMException("Source buffer was removed", "InvalidStateError");
+    }
+    // 3. If the updating attribute equals true, then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (this.#updating) {
+      throw new DOMException(
+        "Source buffer must not be updating",
+        "InvalidStateError"
+      );
+    }
+    // 4. If the readyState attribute of the parent media source is in the "ended" state
+    //    then run the following steps...
+    openIfEnded(this.#parent);
+    // 5. If the [[append state]] equals PARSING_MEDIA_SEGMENT, then throw an InvalidStateError
+    //    and abort these steps.
+    if (this.#appendState === AppendState.PARSING_MEDIA_SEGMENT) {
+      throw new DOMException(
+        "Source buffer must not be parsing a media segment",
+        "InvalidStateError"
+      );
+    }
+    // 6. If the mode attribute equals "sequence", then set the [[group start timestamp]]
+    //    to new timestamp offset.
+    if (this.#mode === "sequence") {
+      this.#groupStartTimestamp = timestampOffset;
+    }
+    // 7. Update the attribute to new timestamp offset.
+    this.#timestampOffset = timestampOffset;
+  }
+
+  get appendWindowStart(): number {
+    return this.#appendWindowStart;
+  }
+
+  set appendWindowStart(appendWindowStart: number) {
+    // https://w3c.github.io/media-source/#dom-sourcebuffer-appendwindowstart
+    appendWindowStart = Number(appendWindowStart);
+    // 1. If this object has been removed from the sourceBuffers attribute of the parent media source
+    //    then throw an InvalidStateError exception and abort these steps.
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
+      throw new DOMException("Source buffer was removed", "InvalidStateError");
+    }
+    // 2. If the updating attribute equals true, then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (this.#updating) {
+      throw new DOMException(
+        "Source buffer must not be updating",
+        "InvalidStateError"
+      );
+    }
+    // 3. If the new value is less than 0 or greater than or equal to appendWindowEnd
+    //    then throw a TypeError exception and abort these steps.
+    if (
+      !Number.isFinite(appendWindowStart) ||
+      appendWindowStart < 0 ||
+      appendWindowStart >= this.#appendWindowEnd
+    ) {
+      throw new TypeError(
+        "Append window start must be positive and less than append window end"
+      );
+    }
+    // 4. Update the attribute to the new value.
+    this.#appendWindowStart = appendWindowStart;
+  }
+
+  get appendWindowEnd(): number {
+    return this.#appendWindowEnd;
+  }
+
+  set appendWindowEnd(appendWindowEnd: number) {
+    // https://w3c.github.io/media-source/#dom-sourcebuffer-appendwindowend
+    appendWindowEnd = Number(appendWindowEnd);
+    // 1. If this object has been removed from the sourceBuffers attribute of the parent media source
+    //    then throw an InvalidStateError exception and abort these steps.
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
+      throw new DOMException("Source buffer was removed", "InvalidStateError");
+    }
+    // 2. If the updating attribute equals true, then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (this.#updating) {
+      throw new DOMException(
+        "Source buffer must not be updating",
+        "InvalidStateError"
+      );
+    }
+    // 3. If the new value equals NaN, then throw a TypeError and abort these steps.
+    if (Number.isNaN(appendWindowEnd)) {
+      throw new TypeError("Append window end must not be NaN");
+    }
+    // 4. If the new value is less than or equal to appendWindowStart then throw a TypeError exception
+    //    and abort these steps.
+    if (appendWindowEnd <= this.#appendWindowStart) {
+      throw new TypeError(
+        "Append window end must be greater than append window start"
+      );
+    }
+    // 5. Update the attribute to the new value.
+    this.#appendWindowEnd = appendWindowEnd;
+  }
+
+  // The maximum number of bytes of coded frames that this SourceBuffer can hold.
+  // When an append would exceed this quota, coded frames far away from the
+  // current playback position are evicted first.
+  get bufferQuota(): number {
+    return this.#bufferQuota;
+  }
+
+  set bufferQuota(bufferQuota: number) {
+    if (!Number.isFinite(bufferQuota) || bufferQuota <= 0) {
+      throw new TypeError("Buffer quota must be a positive number");
+    }
+    this.#bufferQuota = bufferQuota;
+  }
+
   get buffered(): TimeRanges {
     // https://w3c.github.io/media-source/#dom-sourcebuffer-buffered
     // 1. If this object has been removed from the sourceBuffers attribute of the parent media source
     //    then throw an InvalidStateError exception and abort these steps.
-    if (!this.#parent.sourceBuffers.includes(this)) {
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
       throw new DOMException("Source buffer was removed", "InvalidStateError");
     }
+    return this.#getBuffered();
+  }
+
+  // The segment index from the "sidx" boxes in the appended data, if any.
+  // In a hierarchical index, this is updated as the other segment index boxes are appended.
+  get segmentIndex(): SegmentIndex | null {
+    return this.#segmentIndex;
+  }
+
+  get audioTracks(): BabyAudioTrackList {
+    return this.#audioTracks;
+  }
+
+  get videoTracks(): BabyVideoTrackList {
+    return this.#videoTracks;
+  }
+
+  #getBuffered(): TimeRanges {
     if (this.#trackBuffers.length === 0) {
       return new TimeRanges([]);
     }
@@ -108,7 +353,7 @@ export class BabySourceBuffer extends EventTarget {
     // https://w3c.github.io/media-source/#dom-sourcebuffer-abort
     // 1. If this object has been removed from the sourceBuffers attribute of the parent media source
     //    then throw an InvalidStateError exception and abort these steps.
-    if (!this.#parent.sourceBuffers.includes(this)) {
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
       throw new DOMException("Source buffer was removed", "InvalidStateError");
     }
     // 2. If the readyState attribute of the parent media source is not in the "open" state
@@ -120,46 +365,103 @@ export class BabySourceBuffer extends EventTarget {
     //    and abort these steps.
     // TODO
     // 4. If the updating attribute equals true, then run the following steps:
-    if (this.#updating) {
-      // 4.1. Abort the buffer append algorithm if it is running.
-      // TODO
-      // 4.2. Set the updating attribute to false.
-      this.#updating = false;
-      // 4.3. Queue a task to fire an event named abort at this SourceBuffer object.
-      queueTask(() => this.dispatchEvent(new Event("abort")));
-      // 4.4. Queue a task to fire an event named updateend at this SourceBuffer object.
-      queueTask(() => this.dispatchEvent(new Event("updateend")));
-    }
+    this.#abortBufferAppend();
     // 5. Run the reset parser state algorithm.
-    // TODO
+    this.#resetParserState();
     // 6. Set appendWindowStart to the presentation start time.
-    // TODO
+    this.#appendWindowStart = 0;
     // 7. Set appendWindowEnd to positive Infinity.
-    // TODO
+    this.#appendWindowEnd = +Infinity;
   }
 
   appendBuffer(data: BufferSource): void {
     // https://w3c.github.io/media-source/#dom-sourcebuffer-appendbuffer
+    const newData = toUint8Array(data);
     // 1. Run the prepare append algorithm.
-    this.#prepareAppend();
+    this.#prepareAppend(newData.byteLength);
     // 2. Add data to the end of the [[input buffer]].
-    this.#inputBuffer = concatUint8Arrays(
-      this.#inputBuffer,
-      toUint8Array(data)
-    );
+    //    The caller may modify its buffer afterwards, so keep a copy.
+    this.#inputBuffer.append(newData.slice());
     // 3. Set the updating attribute to true.
     this.#updating = true;
     // 4. Queue a task to fire an event named updatestart at this SourceBuffer object.
     queueTask(() => this.dispatchEvent(new Event("updatestart")));
     // 5. Asynchronously run the buffer append algorithm.
-    queueMicrotask(() => this.#bufferAppend());
+    this.#appendAbortController = new AbortController();
+    const signal = this.#appendAbortController.signal;
+    queueMicrotask(() => this.#bufferAppend(signal));
+  }
+
+  appendStream(stream: ReadableStream<BufferSource>): void {
+    // https://www.w3.org/TR/2013/CR-media-source-20130905/#widl-SourceBuffer-appendStream-void-Stream-stream-unsigned-long-long-maxSize
+    // 1. Run the prepare append algorithm.
+    //    (The size of the new data is not known yet.)
+    this.#prepareAppend(0);
+    // 2. Set the updating attribute to true.
+    this.#updating = true;
+    // 3. Queue a task to fire an event named updatestart at this SourceBuffer object.
+    queueTask(() => this.dispatchEvent(new Event("updatestart")));
+    // 4. Asynchronously run the stream append loop algorithm with stream.
+    this.#appendAbortController = new AbortController();
+    const signal = this.#appendAbortController.signal;
+    queueMicrotask(() => this.#streamAppendLoop(stream, signal));
+  }
+
+  changeType(type: string): void {
+    // https://w3c.github.io/media-source/#dom-sourcebuffer-changetype
+    // 1. If type is an empty string then throw a TypeError exception and abort these steps.
+    if (type === "") {
+      throw new TypeError("Type must not be empty");
+    }
+    // 2. If this object has been removed from the sourceBuffers attribute of the parent media source,
+    //    then throw an InvalidStateError exception and abort these steps.
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
+      throw new DOMException("Source buffer was removed", "InvalidStateError");
+    }
+    // 3. If the updating attribute equals true, then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (this.#updating) {
+      throw new DOMException(
+        "Source buffer must not be updating",
+        "InvalidStateError"
+      );
+    }
+    // 4. If type contains a MIME type that is not supported or contains a MIME type that is not supported
+    //    with the types specified (currently or previously) of SourceBuffer objects in the sourceBuffers
+    //    attribute of the parent media source, then throw a NotSupportedError exception and abort these steps.
+    if (!BabyMediaSource.isTypeSupported(type)) {
+      throw new DOMException(
+        `Unsupported MIME type: ${type}`,
+        "NotSupportedError"
+      );
+    }
+    // 5. If the readyState attribute of the parent media source is in the "ended" state
+    //    then run the following steps...
+    openIfEnded(this.#parent);
+    // 6. Run the reset parser state algorithm.
+    this.#resetParserState();
+    // 7. Update the [[generate timestamps flag]] on this SourceBuffer object to the value
+    //    in the "Generate Timestamps Flag" column of the byte stream format registry entry
+    //    that is associated with type.
+    this.#parser = createByteStreamParser(type);
+    this.#generateTimestamps = this.#parser.generateTimestamps;
+    // 8. If the [[generate timestamps flag]] equals true:
+    //    Set the mode attribute on this SourceBuffer object to "sequence",
+    //    including running the associated steps for that attribute being set.
+    //    Otherwise: Keep the previous value of the mode attribute on this SourceBuffer object,
+    //    without running any associated steps for that attribute being set.
+    if (this.#generateTimestamps) {
+      this.mode = "sequence";
+    }
+    // 9. Set the [[pending initialization segment for changeType flag]] on this SourceBuffer object to true.
+    this.#pendingInitializationSegmentForChangeType = true;
   }
 
   remove(start: number, end: number): void {
     // https://w3c.github.io/media-source/#dom-sourcebuffer-remove
     // 1. If this object has been removed from the sourceBuffers attribute of the parent media source
     //    then throw an InvalidStateError exception and abort these steps.
-    if (!this.#parent.sourceBuffers.includes(this)) {
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
       throw new DOMException("Source buffer was removed", "InvalidStateError");
     }
     // 2. If the updating attribute equals true, then throw an InvalidStateError exception and
@@ -193,11 +495,100 @@ export class BabySourceBuffer extends EventTarget {
     this.#rangeRemoval(start, end);
   }
 
-  #prepareAppend(): void {
+  appendBufferAsync(
+    data: BufferSource,
+    options: SourceBufferOperationOptions = {}
+  ): Promise<void> {
+    return this.#queueOperation(
+      () => this.appendBuffer(data),
+      true,
+      options.signal
+    );
+  }
+
+  removeAsync(
+    start: number,
+    end: number,
+    options: SourceBufferOperationOptions = {}
+  ): Promise<void> {
+    return this.#queueOperation(
+      () => this.remove(start, end),
+      false,
+      options.signal
+    );
+  }
+
+  #queueOperation(
+    operation: () => void,
+    abortable: boolean,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    // Run operations one after the other, in the order in which they were queued.
+    const result = this.#pendingOperation.then(() =>
+      this.#runOperation(operation, abortable, signal)
+    );
+    this.#pendingOperation = result.catch(() => {});
+    return result;
+  }
+
+  async #runOperation(
+    operation: () => void,
+    abortable: boolean,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    // Wait for any operation that was started without going through the queue.
+    while (this.#updating) {
+      await waitForEvent(this, "updateend", signal);
+    }
+    operation();
+    return new Promise<void>((resolve, reject) => {
+      const settle = (error?: unknown) => {
+        this.removeEventListener("update", onUpdate);
+        this.removeEventListener("error", onError);
+        this.removeEventListener("abort", onAbort);
+        signal?.removeEventListener("abort", onSignalAbort);
+        if (error === undefined) {
+          resolve();
+        } else {
+          reject(error);
+        }
+      };
+      const onUpdate = () => settle();
+      const onError = () =>
+        settle(
+          new DOMException(
+            "An error occurred while processing the media data",
+            "EncodingError"
+          )
+        );
+      const onAbort = () =>
+        settle(new DOMException("The operation was aborted", "AbortError"));
+      const onSignalAbort = () => {
+        // A range removal cannot be aborted, so it keeps running in the background.
+        if (abortable && this.#updating) {
+          try {
+            this.abort();
+          } catch {
+            // The source buffer was removed or the media source is no longer open.
+          }
+        }
+        settle(signal!.reason);
+      };
+      this.addEventListener("update", onUpdate);
+      this.addEventListener("error", onError);
+      this.addEventListener("abort", onAbort);
+      signal?.addEventListener("abort", onSignalAbort);
+    });
+  }
+
+  #prepareAppend(newDataSize: number): void {
     // https://w3c.github.io/media-source/#sourcebuffer-prepare-append
     // 1. If the SourceBuffer has been removed from the sourceBuffers attribute of the parent media source
     //    then throw an InvalidStateError exception and abort these steps.
-    if (!this.#parent.sourceBuffers.includes(this)) {
+    if (!getSourceBuffers(this.#parent.sourceBuffers).includes(this)) {
       throw new DOMException("Source buffer was removed", "InvalidStateError");
     }
     // 2. If the updating attribute equals true, then throw an InvalidStateError exception and
@@ -208,19 +599,44 @@ export class BabySourceBuffer extends EventTarget {
         "InvalidStateError"
       );
     }
-    // TODO Steps 3 to 4
+    // 3. Let recent element error be determined as follows:
+    //    If the MediaSource was constructed in a Window:
+    //    Let recent element error be true if the HTMLMediaElement's error attribute is not null.
+    const recentElementError = !!getMediaElement(this.#parent)?.error;
+    // 4. If recent element error is true, then throw an InvalidStateError exception
+    //    and abort these steps.
+    if (recentElementError) {
+      throw new DOMException(
+        "Media element must not have an error",
+        "InvalidStateError"
+      );
+    }
     // 5. If the readyState attribute of the parent media source is in the "ended" state
     //    then run the following steps...
     openIfEnded(this.#parent);
-    // TODO Steps 6 to 7
+    // 6. Run the coded frame eviction algorithm.
+    this.#codedFrameEviction(newDataSize);
+    // 7. If the [[buffer full flag]] equals true, then throw a QuotaExceededError exception
+    //    and abort these steps.
+    if (this.#bufferFull) {
+      throw new DOMException(
+        "Not enough space in buffer to append data",
+        "QuotaExceededError"
+      );
+    }
   }
 
-  async #bufferAppend(): Promise<void> {
+  async #bufferAppend(signal: AbortSignal): Promise<void> {
     // https://w3c.github.io/media-source/#dfn-buffer-append
+    const previousBuffered = this.#getBuffered();
     // 1. Run the segment parser loop algorithm.
-    await this.#segmentParserLoop();
+    await this.#segmentParserLoop(signal);
     // 2. If the segment parser loop algorithm in the previous step was aborted,
     //    then abort this algorithm.
+    if (signal.aborted) {
+      return;
+    }
+    this.onBufferedChange(previousBuffered);
     // 3. Set the updating attribute to false.
     this.#updating = false;
     // 4. Queue a task to fire an event named update at this SourceBuffer object.
@@ -229,98 +645,187 @@ export class BabySourceBuffer extends EventTarget {
     queueTask(() => this.dispatchEvent(new Event("updateend")));
   }
 
-  async #segmentParserLoop(): Promise<void> {
-    // https://w3c.github.io/media-source/#sourcebuffer-segment-parser-loop
-    const stream = new MP4BoxStream(this.#inputBuffer.buffer);
+  async #streamAppendLoop(
+    stream: ReadableStream<BufferSource>,
+    signal: AbortSignal
+  ): Promise<void> {
+    // https://www.w3.org/TR/2013/CR-media-source-20130905/#sourcebuffer-stream-append-loop
+    const previousBuffered = this.#getBuffered();
+    const reader = stream.getReader();
+    // Cancel the stream when the append is aborted, e.g. by abort().
+    const abortListener = () => {
+      reader.cancel(signal.reason).catch(() => {});
+    };
+    signal.addEventListener("abort", abortListener, { once: true });
     try {
       while (true) {
-        const parseResult = BoxParser.parseOneBox(stream, true);
-        if (parseResult.code === BoxParser.ERR_NOT_ENOUGH_DATA) {
-          // 7. Need more data: Return control to the calling algorithm.
-          break;
-        } else if (parseResult.code === BoxParser.ERR_INVALID_DATA) {
-          // 2. If the [[input buffer]] contains bytes that violate the SourceBuffer
-          //    byte stream format specification, then run the append error algorithm
-          //    and abort this algorithm.
-          this.#appendError();
+        // 3. Read data from stream into data:
+        let result: ReadableStreamReadResult<BufferSource>;
+        try {
+          result = await reader.read();
+        } catch {
+          // If an error occurs while reading data from stream,
+          // then run the stream append error algorithm and abort this algorithm.
+          if (!signal.aborted) {
+            this.#streamAppendError();
+          }
+          return;
+        }
+        // If the read is aborted, then abort this algorithm.
+        if (signal.aborted) {
+          return;
+        }
+        // If data is the end of stream, then jump to the end of stream step below.
+        if (result.done) {
           break;
-        } else if (parseResult.code === BoxParser.OK) {
-          const boxStart = parseResult.start;
-          const boxEnd = parseResult.start + parseResult.size;
-          const boxData = this.#inputBuffer.slice(boxStart, boxEnd).buffer;
-          await this.#parseBox(parseResult.type, boxData);
-          stream.seek(boxEnd);
         }
+        const data = toUint8Array(result.value);
+        // 4. Run the coded frame eviction algorithm.
+        this.#codedFrameEviction(data.byteLength);
+        // 5. If the [[buffer full flag]] equals true, then run the stream append error algorithm
+        //    and abort this algorithm.
+        if (this.#bufferFull) {
+          this.#streamAppendError();
+          return;
+        }
+        // 6. Append data to the end of the [[input buffer]].
+        this.#inputBuffer.append(data);
+        // 7. Run the segment parser loop algorithm.
+        await this.#segmentParserLoop(signal);
+        // 8. If the segment parser loop algorithm in the previous step was aborted,
+        //    then abort this algorithm.
+        if (signal.aborted) {
+          return;
+        }
+        // 9. Jump to the loop top step above.
       }
     } finally {
-      this.#inputBuffer = this.#inputBuffer.slice(stream.getPosition());
+      signal.removeEventListener("abort", abortListener);
+      reader.releaseLock();
+    }
+    this.onBufferedChange(previousBuffered);
+    // 10. End of stream: Set the updating attribute to false.
+    this.#updating = false;
+    // 11. Queue a task to fire an event named update at this SourceBuffer object.
+    queueTask(() => this.dispatchEvent(new Event("update")));
+    // 12. Queue a task to fire an event named updateend at this SourceBuffer object.
+    queueTask(() => this.dispatchEvent(new Event("updateend")));
+  }
+
+  #streamAppendError(): void {
+    // https://www.w3.org/TR/2013/CR-media-source-20130905/#sourcebuffer-stream-append-error
+    // Abort the segment parser loop and the stream append loop.
+    this.#appendAbortController.abort();
+    // 1. Run the reset parser state algorithm.
+    this.#resetParserState();
+    // 2. Set the updating attribute to false.
+    this.#updating = false;
+    // 3. Queue a task to fire an event named error at this SourceBuffer object.
+    queueTask(() => this.dispatchEvent(new Event("error")));
+    // 4. Queue a task to fire an event named updateend at this SourceBuffer object.
+    queueTask(() => this.dispatchEvent(new Event("updateend")));
+  }
+
+  #abortBufferAppend(): void {
+    if (this.#updating) {
+      // 1. Abort the buffer append algorithm if it is running.
+      this.#appendAbortController.abort();
+      // 2. Set the updating attribute to false.
+      this.#updating = false;
+      // 3. Queue a task to fire an event named abort at this SourceBuffer object.
+      queueTask(() => this.dispatchEvent(new Event("abort")));
+      // 4. Queue a task to fire an event named updateend at this SourceBuffer object.
+      queueTask(() => this.dispatchEvent(new Event("updateend")));
     }
   }
 
-  async #parseBox(boxType: string, boxData: ArrayBuffer): Promise<void> {
+  async #segmentParserLoop(signal: AbortSignal): Promise<void> {
     // https://w3c.github.io/media-source/#sourcebuffer-segment-parser-loop
-    if (boxType === "ftyp") {
-      this.#initializationData = new Uint8Array(boxData);
-      this.#isoFile = undefined;
-    } else if (boxType === "moov") {
-      // 5.2. Run the initialization segment received algorithm.
-      this.#initializationData = concatUint8Arrays(
-        this.#initializationData!,
-        new Uint8Array(boxData)
-      );
-      this.#isoFile = createFile();
-      this.#isoFilePosition = 0;
-      this.#isoFile!.appendBuffer(
-        toMP4ArrayBuffer(
-          this.#initializationData!.buffer,
-          this.#isoFilePosition
-        )
-      );
-      this.#isoFilePosition += boxData.byteLength;
-      const newInfo = this.#isoFile!.getInfo();
-      await this.#initializationSegmentReceived(newInfo);
-      this.#mp4Info = newInfo;
-    } else if (boxType === "moof" || boxType === "mdat") {
-      // 6.1. If the [[first initialization segment received flag]] is false
-      //      or the [[pending initialization segment for changeType flag]] is true,
-      //      then run the append error algorithm and abort this algorithm.
-      if (!this.#firstInitializationSegmentReceived) {
+    while (true) {
+      const parseResult = this.#parser.parse(this.#inputBuffer);
+      if (parseResult.type === "needMoreData") {
+        // 7. Need more data: Return control to the calling algorithm.
+        break;
+      } else if (parseResult.type === "error") {
+        // 2. If the [[input buffer]] contains bytes that violate the SourceBuffer
+        //    byte stream format specification, then run the append error algorithm
+        //    and abort this algorithm.
         this.#appendError();
-        return;
+        break;
       }
-      if (boxType === "moof") {
-        // Parse each movie fragment separately.
-        this.#isoFile = createFile();
-        this.#isoFilePosition = 0;
-        this.#isoFile.appendBuffer(
-          toMP4ArrayBuffer(
-            this.#initializationData!.buffer,
-            this.#isoFilePosition
-          )
-        );
-        this.#isoFilePosition += this.#initializationData!.byteLength;
+      this.#inputBuffer.consume(parseResult.byteLength);
+      switch (parseResult.type) {
+        case "initializationSegmentStart":
+          this.#appendState = AppendState.PARSING_INIT_SEGMENT;
+          break;
+        case "initializationSegment":
+          // 5.2. Run the initialization segment received algorithm.
+          await this.#initializationSegmentReceived(
+            parseResult.segment,
+            signal
+          );
+          if (signal.aborted) {
+            return;
+          }
+          this.#initializationSegment = parseResult.segment;
+          this.#appendState = AppendState.WAITING_FOR_SEGMENT;
+          break;
+        case "mediaSegmentStart":
+        case "codedFrames":
+        case "eventMessages":
+          // 6.1. If the [[first initialization segment received flag]] is false
+          //      or the [[pending initialization segment for changeType flag]] is true,
+          //      then run the append error algorithm and abort this algorithm.
+          if (
+            !this.#firstInitializationSegmentReceived ||
+            this.#pendingInitializationSegmentForChangeType
+          ) {
+            this.#appendError();
+            return;
+          }
+          if (parseResult.type === "mediaSegmentStart") {
+            this.#appendState = AppendState.PARSING_MEDIA_SEGMENT;
+          } else if (parseResult.type === "codedFrames") {
+            // 6.2. If the [[input buffer]] contains one or more complete coded frames,
+            //      then run the coded frame processing algorithm.
+            // Encrypted frames are stored as-is, and decrypted by the media element when decoding them.
+            this.#codedFrameProcessing(parseResult.frames);
+          } else {
+            this.#eventMessagesReceived(parseResult.events);
+          }
+          break;
+        case "mediaSegmentEnd":
+          this.#appendState = AppendState.WAITING_FOR_SEGMENT;
+          break;
+        case "segmentIndex":
+          this.#segmentIndex = parseResult.segmentIndex;
+          break;
+        case "initData":
+          getMediaElement(this.#parent)!.notifyEncrypted(
+            parseResult.initDataType,
+            parseResult.initData
+          );
+          break;
       }
-      this.#isoFile!.appendBuffer(
-        toMP4ArrayBuffer(boxData, this.#isoFilePosition)
-      );
-      this.#isoFilePosition += boxData.byteLength;
-      // 6.2. If the [[input buffer]] contains one or more complete coded frames,
-      //      then run the coded frame processing algorithm.
-      if (boxType === "mdat") {
-        this.#codedFrameProcessing();
+      if (signal.aborted) {
+        // The [[input buffer]] was already reset.
+        return;
       }
     }
   }
 
-  async #initializationSegmentReceived(info: Info): Promise<void> {
+  async #initializationSegmentReceived(
+    segment: InitializationSegment,
+    signal: AbortSignal
+  ): Promise<void> {
     // https://w3c.github.io/media-source/#sourcebuffer-init-segment-received
     // 1. Update the duration attribute if it currently equals NaN
     if (Number.isNaN(this.#parent.duration)) {
-      if (info.duration > 0) {
+      if (!Number.isNaN(segment.duration)) {
         // If the initialization segment contains a duration:
         // Run the duration change algorithm with new duration set
         // to the duration in the initialization segment.
-        durationChange(this.#parent, info.duration);
+        durationChange(this.#parent, segment.duration);
       } else {
         // Otherwise:
         // Run the duration change algorithm with new duration set to positive Infinity.
@@ -329,7 +834,7 @@ export class BabySourceBuffer extends EventTarget {
     }
     // 2. If the initialization segment has no audio, video, or text tracks,
     //    then run the append error algorithm and abort these steps.
-    if (info.audioTracks.length === 0 && info.videoTracks.length === 0) {
+    if (segment.audioTracks.length === 0 && segment.videoTracks.length === 0) {
       this.#appendError();
       return;
     }
@@ -338,12 +843,12 @@ export class BabySourceBuffer extends EventTarget {
     if (this.#firstInitializationSegmentReceived) {
       // 3.1. Verify the following properties. If any of the checks fail
       //      then run the append error algorithm and abort these steps.
-      const oldInfo = this.#mp4Info!;
+      const oldSegment = this.#initializationSegment!;
       // * The number of audio, video, and text tracks match what was
       //   in the first initialization segment.
       if (
-        info.audioTracks.length !== oldInfo.audioTracks.length ||
-        info.videoTracks.length !== oldInfo.videoTracks.length
+        segment.audioTracks.length !== oldSegment.audioTracks.length ||
+        segment.videoTracks.length !== oldSegment.videoTracks.length
       ) {
         this.#appendError();
         return;
@@ -351,46 +856,48 @@ export class BabySourceBuffer extends EventTarget {
       // * If more than one track for a single type are present (e.g., 2 audio tracks),
       //   then the Track IDs match the ones in the first initialization segment.
       if (
-        (info.audioTracks.length > 1 &&
-          !hasMatchingTrackIds(info.audioTracks, oldInfo.audioTracks)) ||
-        (info.videoTracks.length > 1 &&
-          !hasMatchingTrackIds(info.videoTracks, oldInfo.videoTracks))
+        (segment.audioTracks.length > 1 &&
+          !hasMatchingTrackIds(segment.audioTracks, oldSegment.audioTracks)) ||
+        (segment.videoTracks.length > 1 &&
+          !hasMatchingTrackIds(segment.videoTracks, oldSegment.videoTracks))
       ) {
         this.#appendError();
         return;
       }
       // * The codecs for each track are supported by the user agent.
-      const audioTrackConfigs = info.audioTracks.map((trackInfo) =>
-        buildAudioConfig(trackInfo, this.#isoFile!.getTrackById(trackInfo.id))
+      const audioTrackConfigs = segment.audioTracks.map(
+        (track) => track.codecConfig
       );
-      const videoTrackConfigs = info.videoTracks.map((trackInfo) =>
-        buildVideoConfig(trackInfo, this.#isoFile!.getTrackById(trackInfo.id))
+      const videoTrackConfigs = segment.videoTracks.map(
+        (track) => track.codecConfig
       );
-      for (const audioTrackConfig of audioTrackConfigs) {
-        const support = await AudioDecoder.isConfigSupported(audioTrackConfig);
-        if (!support.supported) {
-          this.#appendError();
-          return;
-        }
+      const supported = await areConfigsSupported(
+        audioTrackConfigs,
+        videoTrackConfigs
+      );
+      if (signal.aborted) {
+        return;
       }
-      for (const videoTrackConfig of videoTrackConfigs) {
-        const support = await VideoDecoder.isConfigSupported(videoTrackConfig);
-        if (!support.supported) {
-          this.#appendError();
-          return;
-        }
+      if (!supported) {
+        this.#appendError();
+        return;
       }
       // 3.2. Add the appropriate track descriptions from this initialization segment to each of the track buffers.
-      for (let i = 0; i < info.audioTracks.length; i++) {
-        const audioTrackInfo = info.audioTracks[i];
+      for (let i = 0; i < segment.audioTracks.length; i++) {
+        const audioTrackDescription = segment.audioTracks[i];
         const audioTrackConfig = audioTrackConfigs[i];
-        const trackBuffer = this.#getMatchingTrackBuffer(audioTrackInfo)!;
+        const trackBuffer = this.#getMatchingTrackBuffer(
+          audioTrackDescription
+        )!;
         trackBuffer.reconfigure(audioTrackConfig);
+        this.#primingEnds.set(trackBuffer, audioTrackDescription.primingEnd);
       }
-      for (let i = 0; i < info.videoTracks.length; i++) {
-        const videoTrackInfo = info.videoTracks[i];
+      for (let i = 0; i < segment.videoTracks.length; i++) {
+        const videoTrackDescription = segment.videoTracks[i];
         const videoTrackConfig = videoTrackConfigs[i];
-        const trackBuffer = this.#getMatchingTrackBuffer(videoTrackInfo)!;
+        const trackBuffer = this.#getMatchingTrackBuffer(
+          videoTrackDescription
+        )!;
         trackBuffer.reconfigure(videoTrackConfig);
       }
       // 3.3. Set the need random access point flag on all track buffers to true.
@@ -406,114 +913,170 @@ export class BabySourceBuffer extends EventTarget {
       // 5.1. If the initialization segment contains tracks with codecs
       //      the user agent does not support, then run the append error
       //      algorithm and abort these steps.
-      const audioTrackConfigs = info.audioTracks.map((trackInfo) =>
-        buildAudioConfig(trackInfo, this.#isoFile!.getTrackById(trackInfo.id))
+      const audioTrackConfigs = segment.audioTracks.map(
+        (track) => track.codecConfig
       );
-      const videoTrackConfigs = info.videoTracks.map((trackInfo) =>
-        buildVideoConfig(trackInfo, this.#isoFile!.getTrackById(trackInfo.id))
+      const videoTrackConfigs = segment.videoTracks.map(
+        (track) => track.codecConfig
       );
-      for (const audioTrackConfig of audioTrackConfigs) {
-        const support = await AudioDecoder.isConfigSupported(audioTrackConfig);
-        if (!support.supported) {
-          this.#appendError();
-          return;
-        }
+      const supported = await areConfigsSupported(
+        audioTrackConfigs,
+        videoTrackConfigs
+      );
+      if (signal.aborted) {
+        return;
       }
-      for (const videoTrackConfig of videoTrackConfigs) {
-        const support = await VideoDecoder.isConfigSupported(videoTrackConfig);
-        if (!support.supported) {
-          this.#appendError();
-          return;
-        }
+      if (!supported) {
+        this.#appendError();
+        return;
       }
       // 5.2. For each audio track in the initialization segment,
       //      run following steps:
-      for (let i = 0; i < info.audioTracks.length; i++) {
-        const audioTrackInfo = info.audioTracks[i];
+      for (let i = 0; i < segment.audioTracks.length; i++) {
+        const audioTrackDescription = segment.audioTracks[i];
         const audioTrackConfig = audioTrackConfigs[i];
-        // 5.2.6.7.2. Set active track flag to true.
-        activeTrack = true;
+        // 5.2.1 - 5.2.5. Let the language, label and kinds of the track
+        //                be the values from the initialization segment.
+        // 5.2.6.1. Let new audio track be a new AudioTrack object.
+        // 5.2.6.2 - 5.2.6.6. Assign its id, language, label and kind.
+        const audioTrack = new BabyAudioTrack(
+          getTrackInit(audioTrackDescription)
+        );
+        // 5.2.6.7. If this SourceBuffer object's audioTracks's length equals 0,
+        //          then run the following steps:
+        if (this.#audioTracks.length === 0) {
+          // 5.2.6.7.1. Set the enabled property on new audio track to true.
+          audioTrack.enabled = true;
+          // 5.2.6.7.2. Set active track flag to true.
+          activeTrack = true;
+        }
+        // 5.2.6.8. Add new audio track to the audioTracks attribute on this SourceBuffer object.
+        // 5.2.6.9. Queue a task to fire an event named addtrack at the AudioTrackList object
+        //          referenced by the audioTracks attribute on this SourceBuffer object.
+        addTrackToList(this.#audioTracks, audioTrack);
+        // 5.2.6.10. Add new audio track to the audioTracks attribute on the HTMLMediaElement.
+        // 5.2.6.11. Queue a task to fire an event named addtrack at the AudioTrackList object
+        //           referenced by the audioTracks attribute on the HTMLMediaElement.
+        getMediaElement(this.#parent)!.addTrack(audioTrack);
         // 5.2.7. Create a new track buffer to store coded frames for this track.
         // 5.2.8. Add the track description for this track to the track buffer.
         const trackBuffer = new AudioTrackBuffer(
-          audioTrackInfo.id,
+          audioTrackDescription.id,
           audioTrackConfig
         );
         this.#trackBuffers.push(trackBuffer);
+        this.#trackBuffersByTrack.set(audioTrack, trackBuffer);
+        this.#primingEnds.set(trackBuffer, audioTrackDescription.primingEnd);
+        getMediaElement(this.#parent)!.notifyTrackBufferAdded(trackBuffer);
+        observeTrack(audioTrack, () => trackStateChanged(this.#parent, this));
       }
       // 5.3. For each video track in the initialization segment,
       //      run following steps:
-      for (let i = 0; i < info.videoTracks.length; i++) {
-        const videoTrackInfo = info.videoTracks[i];
+      for (let i = 0; i < segment.videoTracks.length; i++) {
+        const videoTrackDescription = segment.videoTracks[i];
         const videoTrackConfig = videoTrackConfigs[i];
-        // 5.3.6.7.2. Set active track flag to true.
-        activeTrack = true;
+        // 5.3.1 - 5.3.5. Let the language, label and kinds of the track
+        //                be the values from the initialization segment.
+        // 5.3.6.1. Let new video track be a new VideoTrack object.
+        // 5.3.6.2 - 5.3.6.6. Assign its id, language, label and kind.
+        const videoTrack = new BabyVideoTrack(
+          getTrackInit(videoTrackDescription)
+        );
+        // 5.3.6.7. If this SourceBuffer object's videoTracks's length equals 0,
+        //          then run the following steps:
+        if (this.#videoTracks.length === 0) {
+          // 5.3.6.7.1. Set the selected property on new video track to true.
+          videoTrack.selected = true;
+          // 5.3.6.7.2. Set active track flag to true.
+          activeTrack = true;
+        }
+        // 5.3.6.8. Add new video track to the videoTracks attribute on this SourceBuffer object.
+        // 5.3.6.9. Queue a task to fire an event named addtrack at the VideoTrackList object
+        //          referenced by the videoTracks attribute on this SourceBuffer object.
+        addTrackToList(this.#videoTracks, videoTrack);
+        // 5.3.6.10. Add new video track to the videoTracks attribute on the HTMLMediaElement.
+        // 5.3.6.11. Queue a task to fire an event named addtrack at the VideoTrackList object
+        //           referenced by the videoTracks attribute on the HTMLMediaElement.
+        getMediaElement(this.#parent)!.addTrack(videoTrack);
         // 5.3.7. Create a new track buffer to store coded frames for this track.
         // 5.3.8. Add the track description for this track to the track buffer.
         const trackBuffer = new VideoTrackBuffer(
-          videoTrackInfo.id,
+          videoTrackDescription.id,
           videoTrackConfig
         );
         this.#trackBuffers.push(trackBuffer);
+        this.#trackBuffersByTrack.set(videoTrack, trackBuffer);
+        getMediaElement(this.#parent)!.notifyTrackBufferAdded(trackBuffer);
+        observeTrack(videoTrack, () => trackStateChanged(this.#parent, this));
       }
       // 5.5. If active track flag equals true, then run the following steps:
       if (activeTrack) {
         // 5.5.1. Add this SourceBuffer to activeSourceBuffers.
         // 5.5.2. Queue a task to fire an event named addsourcebuffer at activeSourceBuffers
-        // TODO
+        activateSourceBuffer(this.#parent, this);
       }
       // 5.6. Set [[first initialization segment received flag]] to true.
       this.#firstInitializationSegmentReceived = true;
     }
+    // 6. Set [[pending initialization segment for changeType flag]] to false.
+    this.#pendingInitializationSegmentForChangeType = false;
     // 7. If the active track flag equals true, then run the following steps:
     if (activeTrack) {
       const mediaElement = getMediaElement(this.#parent)!;
       // 8.1. If the HTMLMediaElement.readyState attribute is greater than HAVE_CURRENT_DATA,
       //      then set the HTMLMediaElement.readyState attribute to HAVE_METADATA.
       if (mediaElement.readyState >= MediaReadyState.HAVE_CURRENT_DATA) {
-        updateReadyState(mediaElement, MediaReadyState.HAVE_METADATA);
+        mediaElement.updateReadyState(MediaReadyState.HAVE_METADATA);
       }
       // 9. If each object in sourceBuffers of the parent media source
       //    has [[first initialization segment received flag]] equal to true,
       if (
-        this.#parent.sourceBuffers.every(
+        getSourceBuffers(this.#parent.sourceBuffers).every(
           (sourceBuffer) => sourceBuffer.#firstInitializationSegmentReceived
         )
       ) {
         // 9.1. If the HTMLMediaElement.readyState attribute is HAVE_NOTHING,
         //      then set the HTMLMediaElement.readyState attribute to HAVE_METADATA.
         if (mediaElement.readyState === MediaReadyState.HAVE_NOTHING) {
-          updateReadyState(mediaElement, MediaReadyState.HAVE_METADATA);
+          mediaElement.updateReadyState(MediaReadyState.HAVE_METADATA);
         }
       }
     }
   }
 
-  #getMatchingTrackBuffer(track: AudioTrackInfo): AudioTrackBuffer | undefined;
-  #getMatchingTrackBuffer(track: VideoTrackInfo): VideoTrackBuffer | undefined;
-  #getMatchingTrackBuffer(track: TrackInfo): TrackBuffer | undefined {
+  #getMatchingTrackBuffer(
+    track: AudioTrackDescription
+  ): AudioTrackBuffer | undefined;
+  #getMatchingTrackBuffer(
+    track: VideoTrackDescription
+  ): VideoTrackBuffer | undefined;
+  #getMatchingTrackBuffer(track: TrackDescription): TrackBuffer | undefined {
     return (
       this.#trackBuffers.find((buffer) => buffer.trackId === track.id) ??
       this.#trackBuffers.find((buffer) => buffer.type === track.type)
     );
   }
 
-  #codedFrameProcessing(): void {
+  #eventMessagesReceived(events: readonly EventMessage[]): void {
+    // The event messages are received after the coded frames of their media segment,
+    // so timestampOffset has been updated the same way as for those coded frames.
+    getMediaElement(this.#parent)!.addEventMessages(
+      events.map((event) => ({
+        ...event,
+        presentationTime: event.presentationTime + this.#timestampOffset
+      }))
+    );
+  }
+
+  #codedFrameProcessing(frames: readonly CodedFrame[]): void {
     // https://w3c.github.io/media-source/#sourcebuffer-coded-frame-processing
     // 1. For each coded frame in the media segment run the following steps:
-    for (const trackBuffer of this.#trackBuffers) {
-      this.#isoFile!.setExtractionOptions(trackBuffer.trackId, undefined, {});
-    }
-    this.#isoFile!.onSamples = (trackId, _user, samples) =>
-      this.#processSamples(trackId, samples);
-    this.#isoFile!.start();
-    this.#isoFile!.flush();
-    this.#isoFile!.stop();
+    this.#processCodedFrames(frames);
     // 2. If the HTMLMediaElement.readyState attribute is HAVE_METADATA and the new coded frames
     //    cause HTMLMediaElement.buffered to have a TimeRanges for the current playback position,
     //    then set the HTMLMediaElement.readyState attribute to HAVE_CURRENT_DATA.
     const mediaElement = getMediaElement(this.#parent)!;
-    const buffered = mediaElement.buffered;
+    const buffered = getBuffered(this.#parent);
     const currentTime = mediaElement.currentTime;
     const duration = this.#parent.duration;
     const playbackRate = mediaElement.playbackRate;
@@ -521,7 +1084,7 @@ export class BabySourceBuffer extends EventTarget {
       mediaElement.readyState === MediaReadyState.HAVE_METADATA &&
       buffered.contains(currentTime)
     ) {
-      updateReadyState(mediaElement, MediaReadyState.HAVE_CURRENT_DATA);
+      mediaElement.updateReadyState(MediaReadyState.HAVE_CURRENT_DATA);
     }
     // 3. If the HTMLMediaElement.readyState attribute is HAVE_CURRENT_DATA and the new coded frames
     //    cause HTMLMediaElement.buffered to have a TimeRanges that includes the current playback position
@@ -531,7 +1094,7 @@ export class BabySourceBuffer extends EventTarget {
       mediaElement.readyState === MediaReadyState.HAVE_CURRENT_DATA &&
       hasSomeBuffer(buffered, currentTime, duration, playbackRate)
     ) {
-      updateReadyState(mediaElement, MediaReadyState.HAVE_FUTURE_DATA);
+      mediaElement.updateReadyState(MediaReadyState.HAVE_FUTURE_DATA);
     }
     // 4. If the HTMLMediaElement.readyState attribute is HAVE_FUTURE_DATA and the new coded frames
     //    cause HTMLMediaElement.buffered to have a TimeRanges that includes the current playback position
@@ -540,26 +1103,68 @@ export class BabySourceBuffer extends EventTarget {
     // TODO
     // 5. If the media segment contains data beyond the current duration, then run the duration change
     //    algorithm with new duration set to the maximum of the current duration and the [[group end timestamp]].
-    // TODO
-    notifyProgress(mediaElement);
+    if (this.#groupEndTimestamp > duration) {
+      durationChange(this.#parent, this.#groupEndTimestamp);
+    }
+    mediaElement.notifyProgress();
   }
 
-  #processSamples(trackId: number, samples: Sample[]): void {
+  #processCodedFrames(frames: readonly CodedFrame[]): void {
     // https://w3c.github.io/media-source/#sourcebuffer-coded-frame-processing
-    const trackBuffer = this.#trackBuffers.find(
-      (trackBuffer) => trackBuffer.trackId === trackId
-    )!;
     // 1. For each coded frame in the media segment run the following steps:
-    for (let i = 0; i < samples.length; i++) {
-      const sample = samples[i];
-      // 1.1. Let presentation timestamp be a double precision floating point representation
-      //      of the coded frame's presentation timestamp in seconds.
-      const pts = sample.cts / sample.timescale;
-      // 1.2. Let decode timestamp be a double precision floating point representation
-      //      of the coded frame's decode timestamp in seconds.
-      const dts = sample.dts / sample.timescale;
+    for (let i = 0; i < frames.length; i++) {
+      const frame = frames[i];
+      const trackBuffer = this.#trackBuffers.find(
+        (trackBuffer) => trackBuffer.trackId === frame.trackId
+      );
+      if (trackBuffer === undefined) {
+        // Ignore coded frames for tracks that were not in the initialization segment.
+        continue;
+      }
+      let pts: number;
+      let dts: number;
+      if (this.#generateTimestamps) {
+        // 1. If [[generate timestamps flag]] equals true:
+        // 1.1. Let presentation timestamp equal 0.
+        pts = 0;
+        // 1.2. Let decode timestamp equal 0.
+        dts = 0;
+      } else {
+        // 1. Otherwise:
+        // 1.1. Let presentation timestamp be a double precision floating point representation
+        //      of the coded frame's presentation timestamp in seconds.
+        pts = frame.presentationTimestamp;
+        // 1.2. Let decode timestamp be a double precision floating point representation
+        //      of the coded frame's decode timestamp in seconds.
+        dts = frame.decodeTimestamp;
+      }
+      // 2. Let frame duration be a double precision floating point representation
+      //    of the coded frame's duration in seconds.
+      const frameDuration = frame.duration;
+      // 3. If mode equals "sequence" and [[group start timestamp]] is set,
+      //    then run the following steps:
+      if (
+        this.#mode === "sequence" &&
+        this.#groupStartTimestamp !== undefined
+      ) {
+        // 3.1. Set timestampOffset equal to [[group start timestamp]] - presentation timestamp.
+        this.#timestampOffset = this.#groupStartTimestamp - pts;
+        // 3.2. Set [[group end timestamp]] equal to [[group start timestamp]].
+        this.#groupEndTimestamp = this.#groupStartTimestamp;
+        // 3.3. Set the need random access point flag on all track buffers to true.
+        for (const trackBuffer of this.#trackBuffers) {
+          trackBuffer.needRandomAccessPoint = true;
+        }
+        // 3.4. Unset [[group start timestamp]].
+        this.#groupStartTimestamp = undefined;
+      }
       // 4. If timestampOffset is not 0, then run the following steps:
-      // TODO timestampOffset
+      if (this.#timestampOffset !== 0) {
+        // 4.1. Add timestampOffset to the presentation timestamp.
+        pts += this.#timestampOffset;
+        // 4.2. Add timestampOffset to the decode timestamp.
+        dts += this.#timestampOffset;
+      }
       // 5. Let track buffer equal the track buffer that the coded frame will be added to.
       // 6. If last decode timestamp for track buffer is set and decode timestamp
       //    is less than last decode timestamp:
@@ -572,6 +1177,15 @@ export class BabySourceBuffer extends EventTarget {
           dts - trackBuffer.lastDecodeTimestamp >
             2 * trackBuffer.lastFrameDuration!)
       ) {
+        if (this.#mode === "segments") {
+          // 6.1. If mode equals "segments":
+          //      Set [[group end timestamp]] to presentation timestamp.
+          this.#groupEndTimestamp = pts;
+        } else {
+          // 6.1. If mode equals "sequence":
+          //      Set [[group start timestamp]] equal to the [[group end timestamp]].
+          this.#groupStartTimestamp = this.#groupEndTimestamp;
+        }
         // 6.2. Unset the last decode timestamp on all track buffers.
         // 6.3. Unset the last frame duration on all track buffers.
         // 6.4. Unset the highest end timestamp on all track buffers.
@@ -584,15 +1198,62 @@ export class BabySourceBuffer extends EventTarget {
         continue;
       }
       // 7. Let frame end timestamp equal the sum of presentation timestamp and frame duration.
-      const frameEndTimestamp =
-        (sample.cts + sample.duration) / sample.timescale;
-      // TODO 8 and 9 appendWindowStart and appendWindowEnd
+      const frameEndTimestamp = pts + frameDuration;
+      // Audio frames which straddle the edges of the append window are not dropped,
+      // instead only the part inside the append window is kept.
+      let trimmedInterval: TimeRange | undefined = undefined;
+      // The priming samples at the start of an audio track must be decoded, but not presented.
+      // A frame that only contains priming samples is kept with an empty presentation interval.
+      const codedPrimingEnd = this.#primingEnds.get(trackBuffer);
+      const primingEnd =
+        codedPrimingEnd !== undefined && !this.#generateTimestamps
+          ? pts - frame.presentationTimestamp + codedPrimingEnd
+          : undefined;
+      const isPrimingFrame =
+        primingEnd !== undefined && frameEndTimestamp <= primingEnd;
+      if (isPrimingFrame) {
+        trimmedInterval = [pts, pts];
+      } else if (primingEnd !== undefined && pts < primingEnd) {
+        trimmedInterval = [primingEnd, frameEndTimestamp];
+      }
+      // 8. If presentation timestamp is less than appendWindowStart, then set the need random access point flag
+      //    to true, drop the coded frame, and jump to the top of the loop to start processing the next coded frame.
+      // 9. If frame end timestamp is greater than appendWindowEnd, then set the need random access point flag
+      //    to true, drop the coded frame, and jump to the top of the loop to start processing the next coded frame.
+      if (isPrimingFrame) {
+        // A priming frame is kept if the frames that it primes start inside the append window.
+        if (
+          primingEnd! < this.#appendWindowStart ||
+          primingEnd! >= this.#appendWindowEnd
+        ) {
+          continue;
+        }
+      } else if (
+        pts < this.#appendWindowStart ||
+        frameEndTimestamp > this.#appendWindowEnd
+      ) {
+        const trimmedStart = Math.max(
+          trimmedInterval?.[0] ?? pts,
+          this.#appendWindowStart
+        );
+        const trimmedEnd = Math.min(frameEndTimestamp, this.#appendWindowEnd);
+        if (trackBuffer.type !== "audio" || trimmedStart >= trimmedEnd) {
+          trackBuffer.needRandomAccessPoint = true;
+          continue;
+        }
+        trimmedInterval = [trimmedStart, trimmedEnd];
+      }
+      // A priming frame still replaces the existing coded frames in its coded interval.
+      const [presentationStart, presentationEnd] =
+        !isPrimingFrame && trimmedInterval !== undefined
+          ? trimmedInterval
+          : [pts, frameEndTimestamp];
       // 10. If the need random access point flag on track buffer equals true,
       //     then run the following steps:
       if (trackBuffer.needRandomAccessPoint) {
         // 10.1. If the coded frame is not a random access point, then drop the coded frame
         //       and jump to the top of the loop to start processing the next coded frame.
-        if (!sample.is_sync) {
+        if (!frame.is_sync) {
           continue;
         }
         // 10.2. Set the need random access point flag on track buffer to false.
@@ -604,7 +1265,7 @@ export class BabySourceBuffer extends EventTarget {
       //     then run the following steps:
       // 13.1. Let overlapped frame be the coded frame in track buffer that matches the condition above.
       if (trackBuffer.lastDecodeTimestamp === undefined) {
-        const overlappedFrame = trackBuffer.findFrameForTime(pts);
+        const overlappedFrame = trackBuffer.findFrameForTime(presentationStart);
         if (overlappedFrame !== undefined) {
           // 13.2. If track buffer contains audio coded frames:
           // TODO Audio frame splicing
@@ -615,7 +1276,7 @@ export class BabySourceBuffer extends EventTarget {
             const removeWindowTimestamp = overlappedFrame.timestamp + 1;
             // 2. If the presentation timestamp is less than the remove window timestamp,
             //   then remove overlapped frame from track buffer.
-            if (1e6 * pts < removeWindowTimestamp) {
+            if (1e6 * presentationStart < removeWindowTimestamp) {
               trackBuffer.removeSamples(
                 overlappedFrame.timestamp,
                 removeWindowTimestamp
@@ -630,16 +1291,16 @@ export class BabySourceBuffer extends EventTarget {
         //   Remove all coded frames from track buffer that have a presentation timestamp
         //   greater than or equal to presentation timestamp and less than frame end timestamp.
         trackBuffer.removeSamples(
-          Math.floor(1e6 * pts),
-          Math.floor(1e6 * frameEndTimestamp)
+          Math.floor(1e6 * presentationStart),
+          Math.floor(1e6 * presentationEnd)
         );
-      } else if (trackBuffer.highestEndTimestamp <= pts) {
+      } else if (trackBuffer.highestEndTimestamp <= presentationStart) {
         // * If highest end timestamp for track buffer is set and less than or equal to presentation timestamp:
         //   Remove all coded frames from track buffer that have a presentation timestamp
         //   greater than or equal to highest end timestamp and less than frame end timestamp.
         trackBuffer.removeSamples(
           Math.floor(1e6 * trackBuffer.highestEndTimestamp),
-          Math.floor(1e6 * frameEndTimestamp)
+          Math.floor(1e6 * presentationEnd)
         );
       }
       // 15. Remove all possible decoding dependencies on the coded frames removed in the previous two steps
@@ -647,13 +1308,17 @@ export class BabySourceBuffer extends EventTarget {
       //     and the next random access point after those removed frames.
       // Note: already handled by removeSamples()
       // Steps 16 to 19
-      trackBuffer.addSample(sample);
-    }
-    if (samples.length > 0) {
-      this.#isoFile!.releaseUsedSamples(
-        trackId,
-        samples[samples.length - 1].number
-      );
+      trackBuffer.addSample(frame, pts, dts, frameDuration, trimmedInterval);
+      // 20. If frame end timestamp is greater than [[group end timestamp]],
+      //     then set [[group end timestamp]] equal to frame end timestamp.
+      if (presentationEnd > this.#groupEndTimestamp) {
+        this.#groupEndTimestamp = presentationEnd;
+      }
+      // 21. If [[generate timestamps flag]] equals true,
+      //     then set timestampOffset equal to frame end timestamp.
+      if (this.#generateTimestamps) {
+        this.#timestampOffset = frameEndTimestamp;
+      }
     }
   }
 
@@ -665,8 +1330,10 @@ export class BabySourceBuffer extends EventTarget {
     queueTask(() => this.dispatchEvent(new Event("updatestart")));
     // 5. Return control to the caller and run the rest of the steps asynchronously.
     queueMicrotask(() => {
+      const previousBuffered = this.#getBuffered();
       // 6. Run the coded frame removal algorithm with start and end as the start and end of the removal range.
       this.#codedFrameRemoval(start, end);
+      this.onBufferedChange(previousBuffered);
       // 7. Set the updating attribute to false.
       this.#updating = false;
       // 8. Queue a task to fire an event named update at this SourceBuffer object.
@@ -676,6 +1343,18 @@ export class BabySourceBuffer extends EventTarget {
     });
   }
 
+  // Removes coded frames on behalf of the user agent, e.g. to free up memory.
+  // This does not run the range removal algorithm, so no update events are fired.
+  protected evictCodedFrames(start: number, end: number): void {
+    const previousBuffered = this.#getBuffered();
+    this.#codedFrameRemoval(start, end);
+    this.onBufferedChange(previousBuffered);
+  }
+
+  // Called after coded frames were added to or removed from this SourceBuffer.
+  // Subclasses can override this to observe changes to buffered.
+  protected onBufferedChange(_previousBuffered: TimeRanges): void {}
+
   #codedFrameRemoval(start: number, end: number): void {
     // https://w3c.github.io/media-source/#dfn-coded-frame-removal
     const startInMicros = Math.floor(1e6 * start);
@@ -697,12 +1376,15 @@ export class BabySourceBuffer extends EventTarget {
       trackBuffer.removeSamples(startInMicros, removeEndTimestamp);
       // 3.3.1. For each removed frame, if the frame has a decode timestamp equal to
       //        the last decode timestamp for the frame's track, run the following steps:
-      // TODO
-      // 3.3.2. Unset the last decode timestamp on all track buffers.
-      // 3.3.3. Unset the last frame duration on all track buffers.
-      // 3.3.4. Unset the highest end timestamp on all track buffers.
-      // 3.3.5. Set the need random access point flag on all track buffers to true.
-      trackBuffer.requireRandomAccessPoint();
+      if (trackBuffer.hasRemovedLastFrame()) {
+        // 3.3.2. Unset the last decode timestamp on all track buffers.
+        // 3.3.3. Unset the last frame duration on all track buffers.
+        // 3.3.4. Unset the highest end timestamp on all track buffers.
+        // 3.3.5. Set the need random access point flag on all track buffers to true.
+        for (const otherTrackBuffer of this.#trackBuffers) {
+          otherTrackBuffer.requireRandomAccessPoint();
+        }
+      }
       // 3.4. Remove all possible decoding dependencies on the coded frames removed
       //      in the previous step by removing all coded frames from this track buffer
       //      between those frames removed in the previous step and the next random
@@ -717,22 +1399,127 @@ export class BabySourceBuffer extends EventTarget {
         currentTimeInMicros < removeEndTimestamp &&
         mediaElement.readyState > MediaReadyState.HAVE_METADATA
       ) {
-        updateReadyState(mediaElement, MediaReadyState.HAVE_METADATA);
+        mediaElement.updateReadyState(MediaReadyState.HAVE_METADATA);
       }
     }
   }
 
+  #codedFrameEviction(newDataSize: number): void {
+    // https://w3c.github.io/media-source/#sourcebuffer-coded-frame-eviction
+    // 1. Let new data equal the data that is about to be appended to this SourceBuffer.
+    // 2. If the [[buffer full flag]] equals false, then abort these steps.
+    this.#updateBufferFullFlag(newDataSize);
+    if (!this.#bufferFull) {
+      return;
+    }
+    // 3. Let removal ranges equal a list of presentation time ranges that can be evicted
+    //    from the presentation to make room for the new data.
+    const removalRanges = this.#getRemovalRanges(
+      this.#getBufferedBytes() + newDataSize - this.#bufferQuota
+    );
+    // 4. For each range in removal ranges, run the coded frame removal algorithm with start
+    //    and end equal to the removal range start and end timestamp respectively.
+    const previousBuffered = this.#getBuffered();
+    for (let i = 0; i < removalRanges.length; i++) {
+      this.#codedFrameRemoval(removalRanges.start(i), removalRanges.end(i));
+    }
+    this.onBufferedChange(previousBuffered);
+    this.#updateBufferFullFlag(newDataSize);
+  }
+
+  #getBufferedBytes(): number {
+    // Include the bytes that are not yet parsed into coded frames.
+    return this.#trackBuffers.reduce(
+      (sum, trackBuffer) => sum + trackBuffer.byteLength,
+      this.#inputBuffer.byteLength
+    );
+  }
+
+  #updateBufferFullFlag(newDataSize: number): void {
+    this.#bufferFull =
+      this.#getBufferedBytes() + newDataSize > this.#bufferQuota;
+  }
+
+  #getRemovalRanges(bytesToFree: number): TimeRanges {
+    const mediaElement = getMediaElement(this.#parent);
+    const currentTimeInMicros = Math.floor(
+      1e6 * (mediaElement?.currentTime ?? 0)
+    );
+    const candidates: EvictionCandidate[] = this.#trackBuffers.flatMap(
+      (trackBuffer) => trackBuffer.getEvictionCandidates()
+    );
+    // Never evict the coded frames that are currently being played,
+    // nor anything that overlaps with them.
+    let protectedStart = currentTimeInMicros;
+    let protectedEnd = currentTimeInMicros;
+    for (const { start, end } of candidates) {
+      if (start <= currentTimeInMicros && currentTimeInMicros < end) {
+        protectedStart = Math.min(protectedStart, start);
+        protectedEnd = Math.max(protectedEnd, end);
+      }
+    }
+    const distanceToCurrentTime = ({ start, end }: EvictionCandidate) =>
+      end <= protectedStart ? protectedStart - end : start - protectedEnd;
+    const evictableCandidates = candidates
+      .filter(
+        ({ start, end }) => end <= protectedStart || protectedEnd <= start
+      )
+      .sort((a, b) => distanceToCurrentTime(b) - distanceToCurrentTime(a));
+    // Evict the candidates farthest away from the current playback position first,
+    // until enough bytes are freed.
+    let freedBytes = 0;
+    let removalRanges = new TimeRanges([]);
+    for (const candidate of evictableCandidates) {
+      if (freedBytes >= bytesToFree) {
+        break;
+      }
+      freedBytes += candidate.byteLength;
+      removalRanges = removalRanges.union(
+        new TimeRanges([[candidate.start / 1e6, candidate.end / 1e6]])
+      );
+    }
+    return removalRanges;
+  }
+
   #resetParserState() {
     // https://w3c.github.io/media-source/#sourcebuffer-reset-parser-state
-    // TODO Steps 1 to 6
+    // 1. If the [[append state]] equals PARSING_MEDIA_SEGMENT and the [[input buffer]] contains
+    //    some complete coded frames, then run the coded frame processing algorithm
+    //    until all of these complete coded frames have been processed.
+    this.#flushCodedFrames();
+    // 2. Unset the last decode timestamp on all track buffers.
+    // 3. Unset the last frame duration on all track buffers.
+    // 4. Unset the highest end timestamp on all track buffers.
+    // 5. Set the need random access point flag on all track buffers to true.
+    for (const trackBuffer of this.#trackBuffers) {
+      trackBuffer.requireRandomAccessPoint();
+    }
+    // 6. If the mode attribute equals "sequence",
+    //    then set the [[group start timestamp]] to the [[group end timestamp]]
+    if (this.#mode === "sequence") {
+      this.#groupStartTimestamp = this.#groupEndTimestamp;
+    }
     // 7. Remove all bytes from the [[input buffer]].
-    this.#inputBuffer = new Uint8Array(0);
+    this.#inputBuffer.clear();
+    this.#parser.reset();
     // 8. Set [[append state]] to WAITING_FOR_SEGMENT.
-    //    (Ignored.)
+    this.#appendState = AppendState.WAITING_FOR_SEGMENT;
+  }
+
+  #flushCodedFrames(): void {
+    if (this.#appendState !== AppendState.PARSING_MEDIA_SEGMENT) {
+      return;
+    }
+    const frames = this.#parser.flush();
+    if (frames.length > 0) {
+      this.#codedFrameProcessing(frames);
+    }
   }
 
   #appendError() {
     // https://w3c.github.io/media-source/#dfn-append-error
+    // Abort the segment parser loop and the buffer append algorithm.
+    this.#appendAbortController.abort();
     // 1. Run the reset parser state algorithm.
     this.#resetParserState();
     // 2. Set the updating attribute to false.
@@ -746,92 +1533,79 @@ export class BabySourceBuffer extends EventTarget {
   }
 
   #getVideoTrackBuffer(): VideoTrackBuffer | undefined {
-    return this.#trackBuffers.find(
-      (trackBuffer): trackBuffer is VideoTrackBuffer =>
-        trackBuffer instanceof VideoTrackBuffer
-    );
+    // Only the selected video track is rendered.
+    for (const videoTrack of this.#videoTracks) {
+      if (videoTrack.selected) {
+        return this.#trackBuffersByTrack.get(videoTrack) as VideoTrackBuffer;
+      }
+    }
+    return undefined;
   }
 
   #getAudioTrackBuffer(): AudioTrackBuffer | undefined {
-    return this.#trackBuffers.find(
-      (trackBuffer): trackBuffer is AudioTrackBuffer =>
-        trackBuffer instanceof AudioTrackBuffer
-    );
+    // Multiple audio tracks can be enabled at the same time,
+    // but only the first one is played.
+    for (const audioTrack of this.#audioTracks) {
+      if (audioTrack.enabled) {
+        return this.#trackBuffersByTrack.get(audioTrack) as AudioTrackBuffer;
+      }
+    }
+    return undefined;
+  }
+
+  #destroy(): void {
+    // The media source may already be detached,
+    // so drop any partially parsed data without processing it.
+    this.#inputBuffer.clear();
+    this.#parser.reset();
+    this.#appendState = AppendState.WAITING_FOR_SEGMENT;
+    this.#trackBuffers.length = 0;
+    this.#trackBuffersByTrack.clear();
+    this.#primingEnds.clear();
+    this.#initializationSegment = undefined;
+    this.#segmentIndex = null;
   }
 
   static {
     getVideoTrackBuffer = (sourceBuffer) => sourceBuffer.#getVideoTrackBuffer();
     getAudioTrackBuffer = (sourceBuffer) => sourceBuffer.#getAudioTrackBuffer();
+    abortBufferAppend = (sourceBuffer) => sourceBuffer.#abortBufferAppend();
+    destroySourceBuffer = (sourceBuffer) => sourceBuffer.#destroy();
+    flushSourceBuffer = (sourceBuffer) => sourceBuffer.#flushCodedFrames();
   }
 }
 
-function toMP4ArrayBuffer(ab: ArrayBuffer, fileStart: number): MP4ArrayBuffer {
-  return Object.assign(ab, { fileStart });
-}
-
-function buildAudioConfig(
-  info: AudioTrackInfo,
-  trak: TrakBox
-): AudioDecoderConfig {
-  return {
-    codec: info.codec,
-    numberOfChannels: info.audio.channel_count,
-    sampleRate: info.audio.sample_rate,
-    description: getAudioSpecificConfig(trak)
-  };
-}
-
-function buildVideoConfig(
-  info: VideoTrackInfo,
-  trak: TrakBox
-): VideoDecoderConfig {
+function getTrackInit(track: TrackDescription): MediaTrackInit {
   return {
-    codec: info.codec,
-    codedWidth: info.video.width,
-    codedHeight: info.video.height,
-    description: createAvcDecoderConfigurationRecord(trak)
+    id: `${track.id}`,
+    kind: track.kind,
+    label: track.label,
+    language: track.language
   };
 }
 
-function isAvcEntry(entry: Box): entry is AvcBox {
-  return (entry as AvcBox).avcC !== undefined;
-}
-
-function isMp4aEntry(entry: Box): entry is Mp4aBox {
-  return entry.type === "mp4a";
-}
-
-function createAvcDecoderConfigurationRecord(
-  trak: TrakBox
-): Uint8Array | undefined {
-  // https://www.w3.org/TR/webcodecs-avc-codec-registration/#videodecoderconfig-description
-  const avcC = trak.mdia.minf.stbl.stsd.entries.find(isAvcEntry)?.avcC;
-  if (!avcC) {
-    return undefined;
+async function areConfigsSupported(
+  audioTrackConfigs: readonly AudioDecoderConfig[],
+  videoTrackConfigs: readonly VideoDecoderConfig[]
+): Promise<boolean> {
+  for (const audioTrackConfig of audioTrackConfigs) {
+    const support = await AudioDecoder.isConfigSupported(audioTrackConfig);
+    if (!support.supported) {
+      return false;
+    }
   }
-  const stream = new DataStream(undefined, 0, DataStream.BIG_ENDIAN);
-  avcC.write(stream);
-  return new Uint8Array(stream.buffer, 8); // remove the box header
-}
-
-function getAudioSpecificConfig(trak: TrakBox): Uint8Array | undefined {
-  const descriptor =
-    trak.mdia.minf.stbl.stsd.entries.find(isMp4aEntry)?.esds.esd.descs[0];
-  if (!descriptor) {
-    return undefined;
+  for (const videoTrackConfig of videoTrackConfigs) {
+    const support = await VideoDecoder.isConfigSupported(videoTrackConfig);
+    if (!support.supported) {
+      return false;
+    }
   }
-  // 0x04 is the DecoderConfigDescrTag. Assuming MP4Box always puts this at position 0.
-  console.assert(descriptor.tag == 0x04);
-  // 0x40 is the Audio OTI, per table 5 of ISO 14496-1
-  console.assert(descriptor.oti == 0x40);
-  // 0x05 is the DecSpecificInfoTag
-  console.assert(descriptor.descs[0].tag == 0x05);
-  return descriptor.descs[0].data;
+  return true;
 }
 
 function hasMatchingTrackIds(
-  newTracks: readonly TrackInfo[],
-  oldTracks: readonly TrackInfo[]
+  newTracks: readonly TrackDescription[],
+  oldTracks: readonly TrackDescription[]
 ): boolean {
   return newTracks.every((newTrack) =>
     oldTracks.some((oldTrack) => newTrack.id === oldTrack.id)
@@ -0,0 +1,336 @@
+import { arrayRemove, queueTask } from "./util";
+import { BabyTrackEvent } from "./track-list";
+
+export interface TextTrackInit {
+  id: string;
+  kind: TextTrackKind;
+  label: string;
+  language: string;
+  inBandMetadataTrackDispatchType: string;
+}
+
+export let addTextTrackToList: (
+  trackList: BabyTextTrackList,
+  track: BabyTextTrack
+) => void;
+export let removeTextTrackFromList: (
+  trackList: BabyTextTrackList,
+  track: BabyTextTrack
+) => void;
+// Returns the text track list of cues, regardless of the track's mode.
+export let getTrackCues: (track: BabyTextTrack) => readonly BabyTextTrackCue[];
+export let isCueActive: (cue: BabyTextTrackCue) => boolean;
+export let setCueActive: (cue: BabyTextTrackCue, active: boolean) => void;
+
+let setCueTrack: (cue: BabyTextTrackCue, track: BabyTextTrack | null) => void;
+let sortCues: (track: BabyTextTrack) => void;
+let setCueListCues: (
+  cueList: BabyTextTrackCueList,
+  cues: readonly BabyTextTrackCue[]
+) => void;
+let getTextTrackLists: (track: BabyTextTrack) => BabyTextTrackList[];
+let queueChangeEvent: (trackList: BabyTextTrackList) => void;
+
+export abstract class BabyTextTrackCue extends EventTarget {
+  id: string = "";
+  pauseOnExit: boolean = false;
+  #track: BabyTextTrack | null = null;
+  #startTime: number;
+  #endTime: number;
+  #active: boolean = false;
+
+  constructor(startTime: number, endTime: number) {
+    super();
+    this.#startTime = startTime;
+    this.#endTime = endTime;
+  }
+
+  get track(): BabyTextTrack | null {
+    return this.#track;
+  }
+
+  get startTime(): number {
+    return this.#startTime;
+  }
+
+  set startTime(startTime: number) {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrackcue-starttime
+    this.#startTime = startTime;
+    if (this.#track) {
+      sortCues(this.#track);
+    }
+  }
+
+  get endTime(): number {
+    return this.#endTime;
+  }
+
+  set endTime(endTime: number) {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrackcue-endtime
+    this.#endTime = endTime;
+    if (this.#track) {
+      sortCues(this.#track);
+    }
+  }
+
+  static {
+    setCueTrack = (cue, track) => {
+      cue.#track = track;
+      cue.#active = false;
+    };
+    isCueActive = (cue) => cue.#active;
+    setCueActive = (cue, active) => (cue.#active = active);
+  }
+}
+
+// The value of a BabyDataCue for an in-band event message.
+export interface EventMessageCueValue {
+  schemeIdUri: string;
+  value: string;
+  id: number;
+  messageData: Uint8Array;
+}
+
+// A cue with arbitrary data, such as an in-band event message.
+// https://wicg.github.io/datacue/
+export class BabyDataCue<T = unknown> extends BabyTextTrackCue {
+  value: T;
+  readonly type: string;
+
+  constructor(startTime: number, endTime: number, value: T, type = "") {
+    super(startTime, endTime);
+    this.value = value;
+    this.type = type;
+  }
+}
+
+export class BabyTextTrackCueList implements Iterable<BabyTextTrackCue> {
+  readonly [index: number]: BabyTextTrackCue;
+  #cues: BabyTextTrackCue[] = [];
+
+  get length(): number {
+    return this.#cues.length;
+  }
+
+  [Symbol.iterator](): IterableIterator<BabyTextTrackCue> {
+    return this.#cues.values();
+  }
+
+  getCueById(id: string): BabyTextTrackCue | null {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrackcuelist-getcuebyid
+    // When the argument is the empty string, return null.
+    if (id === "") {
+      return null;
+    }
+    return this.#cues.find((cue) => cue.id === id) ?? null;
+  }
+
+  static {
+    setCueListCues = (cueList, cues) => {
+      const oldLength = cueList.#cues.length;
+      cueList.#cues = [...cues];
+      // Expose the cues through indexed getters.
+      for (let index = oldLength; index < cues.length; index++) {
+        Object.defineProperty(cueList, index, {
+          configurable: true,
+          enumerable: true,
+          get: () => cueList.#cues[index]
+        });
+      }
+      for (let index = cues.length; index < oldLength; index++) {
+        delete (cueList as Record<number, BabyTextTrackCue>)[index];
+      }
+    };
+  }
+}
+
+// A text track, such as a metadata track for in-band event messages.
+// Like all in-band metadata tracks, it starts out disabled.
+// Set its mode to "hidden" to receive cuechange, enter and exit events.
+export class BabyTextTrack extends EventTarget {
+  readonly id: string;
+  readonly kind: TextTrackKind;
+  readonly label: string;
+  readonly language: string;
+  readonly inBandMetadataTrackDispatchType: string;
+  #mode: TextTrackMode = "disabled";
+  // The text track list of cues, in text track cue order.
+  #cues: BabyTextTrackCue[] = [];
+  readonly #cueList: BabyTextTrackCueList = new BabyTextTrackCueList();
+  readonly #activeCueList: BabyTextTrackCueList = new BabyTextTrackCueList();
+  readonly #trackLists: BabyTextTrackList[] = [];
+
+  constructor(init: TextTrackInit) {
+    super();
+    this.id = init.id;
+    this.kind = init.kind;
+    this.label = init.label;
+    this.language = init.language;
+    this.inBandMetadataTrackDispatchType = init.inBandMetadataTrackDispatchType;
+  }
+
+  get mode(): TextTrackMode {
+    return this.#mode;
+  }
+
+  set mode(mode: TextTrackMode) {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrack-mode
+    if (mode !== "disabled" && mode !== "hidden" && mode !== "showing") {
+      return;
+    }
+    if (this.#mode === mode) {
+      return;
+    }
+    this.#mode = mode;
+    if (mode === "disabled") {
+      // The cues of a disabled track are no longer active.
+      for (const cue of this.#cues) {
+        setCueActive(cue, false);
+      }
+    }
+    for (const trackList of this.#trackLists) {
+      queueChangeEvent(trackList);
+    }
+  }
+
+  get cues(): BabyTextTrackCueList | null {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrack-cues
+    // If the text track mode of the text track that the TextTrack object represents
+    // is not the text track disabled mode, then the cues attribute must return
+    // a live TextTrackCueList object that represents the subset of the text track
+    // list of cues of the text track that the TextTrack object represents.
+    // Otherwise, it must return null.
+    if (this.#mode === "disabled") {
+      return null;
+    }
+    return this.#cueList;
+  }
+
+  get activeCues(): BabyTextTrackCueList | null {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrack-activecues
+    if (this.#mode === "disabled") {
+      return null;
+    }
+    setCueListCues(this.#activeCueList, this.#cues.filter(isCueActive));
+    return this.#activeCueList;
+  }
+
+  addCue(cue: BabyTextTrackCue): void {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrack-addcue
+    // 1. If the given cue is in a text track list of cues, then remove cue
+    //    from that text track list of cues.
+    cue.track?.removeCue(cue);
+    // 2. Add cue to the TextTrack object's text track's text track list of cues.
+    this.#cues.push(cue);
+    setCueTrack(cue, this);
+    this.#sortCues();
+  }
+
+  removeCue(cue: BabyTextTrackCue): void {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrack-removecue
+    // 1. If the given cue is not in the TextTrack object's text track's text track list of cues,
+    //    then throw a "NotFoundError" DOMException.
+    if (!this.#cues.includes(cue)) {
+      throw new DOMException("The cue is not in this track", "NotFoundError");
+    }
+    // 2. Remove cue from the TextTrack object's text track's text track list of cues.
+    arrayRemove(this.#cues, cue);
+    setCueTrack(cue, null);
+    setCueListCues(this.#cueList, this.#cues);
+  }
+
+  #sortCues(): void {
+    // https://html.spec.whatwg.org/multipage/media.html#text-track-cue-order
+    // Cues are sorted by their start time, and then by their end time in reverse order.
+    // Otherwise, they stay in the order in which they were added.
+    this.#cues.sort(
+      (a, b) => a.startTime - b.startTime || b.endTime - a.endTime
+    );
+    setCueListCues(this.#cueList, this.#cues);
+  }
+
+  static {
+    getTrackCues = (track) => track.#cues;
+    sortCues = (track) => track.#sortCues();
+    getTextTrackLists = (track) => track.#trackLists;
+  }
+}
+
+export class BabyTextTrackList
+  extends EventTarget
+  implements Iterable<BabyTextTrack>
+{
+  readonly [index: number]: BabyTextTrack;
+  readonly #tracks: BabyTextTrack[] = [];
+  #pendingChangeNotification: boolean = false;
+
+  get length(): number {
+    return this.#tracks.length;
+  }
+
+  [Symbol.iterator](): IterableIterator<BabyTextTrack> {
+    return this.#tracks.values();
+  }
+
+  getTrackById(id: string): BabyTextTrack | null {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttracklist-gettrackbyid
+    return this.#tracks.find((track) => track.id === id) ?? null;
+  }
+
+  #add(track: BabyTextTrack): void {
+    if (this.#tracks.includes(track)) {
+      return;
+    }
+    const index = this.#tracks.length;
+    this.#tracks.push(track);
+    getTextTrackLists(track).push(this);
+    // Expose the new track through an indexed getter.
+    Object.defineProperty(this, index, {
+      configurable: true,
+      enumerable: true,
+      get: () => this.#tracks[index]
+    });
+    queueTask(() =>
+      this.dispatchEvent(new BabyTrackEvent("addtrack", { track }))
+    );
+  }
+
+  #remove(track: BabyTextTrack): void {
+    if (!this.#tracks.includes(track)) {
+      return;
+    }
+    arrayRemove(this.#tracks, track);
+    arrayRemove(getTextTrackLists(track), this);
+    // The list has become shorter, so remove the last indexed getter.
+    delete (this as Record<number, BabyTextTrack>)[this.#tracks.length];
+    queueTask(() =>
+      this.dispatchEvent(new BabyTrackEvent("removetrack", { track }))
+    );
+  }
+
+  #queueChangeEvent(): void {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-texttrack-mode
+    // Whenever a text track that is in a media element's list of text tracks
+    // has its text track mode change value, the user agent must run the following steps:
+    // 1. If the media element's pending text track change notification flag is set, return.
+    if (this.#pendingChangeNotification) {
+      return;
+    }
+    // 2. Set the media element's pending text track change notification flag.
+    this.#pendingChangeNotification = true;
+    // 3. Queue a media element task given the media element to run these steps:
+    queueTask(() => {
+      // 3.1. Unset the media element's pending text track change notification flag.
+      this.#pendingChangeNotification = false;
+      // 3.2. Fire an event named change at the media element's textTracks attribute's
+      //      TextTrackList object.
+      this.dispatchEvent(new Event("change"));
+    });
+  }
+
+  static {
+    addTextTrackToList = (trackList, track) => trackList.#add(track);
+    removeTextTrackFromList = (trackList, track) => trackList.#remove(track);
+    queueChangeEvent = (trackList) => trackList.#queueChangeEvent();
+  }
+}
@@ -1,6 +1,7 @@
-import { TimeRanges } from "./time-ranges";
+import { TimeRange, TimeRanges } from "./time-ranges";
 import { Sample } from "mp4box";
 import { arrayRemoveAt, Direction, insertSorted } from "./util";
+import { SampleEncryption } from "./cenc";
 
 const BUFFERED_TOLERANCE: number = 1 / 60;
 
@@ -12,15 +13,54 @@ export interface DecodeQueue {
   codecConfig: DecoderConfig;
 }
 
+// The parts of a sample that are needed to create a coded frame.
+export interface CodedFrameData extends Pick<Sample, "data" | "is_sync"> {
+  // The encryption parameters, if the frame is encrypted.
+  encryption?: SampleEncryption;
+}
+
+// An operation that modifies a track buffer.
+// These can be replayed on another track buffer to keep it in sync.
+export type TrackBufferOperation =
+  | {
+      type: "addSample";
+      sample: CodedFrameData;
+      pts: number;
+      dts: number;
+      frameDuration: number;
+      trimmedInterval?: TimeRange;
+    }
+  | { type: "removeSamples"; startInMicros: number; endInMicros: number }
+  | { type: "requireRandomAccessPoint" }
+  | { type: "reconfigure"; codecConfig: DecoderConfig };
+
+// A group of coded frames that can only be evicted together.
+// The presentation interval is in microseconds.
+export interface EvictionCandidate {
+  start: number;
+  end: number;
+  byteLength: number;
+}
+
 export abstract class TrackBuffer<T extends EncodedChunk = EncodedChunk> {
   readonly type: "audio" | "video";
   readonly trackId: number;
-  protected codecConfig: DecoderConfig;
+  codecConfig: DecoderConfig;
   lastDecodeTimestamp: number | undefined = undefined;
   lastFrameDuration: number | undefined = undefined;
   highestEndTimestamp: number | undefined = undefined;
   needRandomAccessPoint: boolean = true;
   trackBufferRanges: TimeRanges = new TimeRanges([]);
+  // Total size of all coded frames in this track buffer.
+  byteLength: number = 0;
+  // Called for every operation that modifies this track buffer.
+  observer: ((operation: TrackBufferOperation) => void) | undefined = undefined;
+  // The encryption parameters of encrypted coded frames.
+  // These frames are only decrypted right before they are decoded.
+  readonly #frameEncryptions: WeakMap<EncodedChunk, SampleEncryption> =
+    new WeakMap();
+  // The coded frame that was added last, whose decode timestamp is the last decode timestamp.
+  #lastFrame: T | undefined = undefined;
 
   protected constructor(
     type: "audio" | "video",
@@ -33,6 +73,8 @@ export abstract class TrackBuffer<T extends EncodedChunk = EncodedChunk> {
   }
 
   requireRandomAccessPoint(): void {
+    this.observer?.({ type: "requireRandomAccessPoint" });
+    this.#lastFrame = undefined;
     this.lastDecodeTimestamp = undefined;
     this.lastFrameDuration = undefined;
     this.highestEndTimestamp = undefined;
@@ -40,29 +82,79 @@ export abstract class TrackBuffer<T extends EncodedChunk = EncodedChunk> {
   }
 
   reconfigure(newConfig: DecoderConfig): void {
+    this.observer?.({ type: "reconfigure", codecConfig: newConfig });
     this.codecConfig = newConfig;
   }
 
-  addSample(sample: Sample): void {
+  applyOperation(operation: TrackBufferOperation): void {
+    switch (operation.type) {
+      case "addSample":
+        this.addSample(
+          operation.sample,
+          operation.pts,
+          operation.dts,
+          operation.frameDuration,
+          operation.trimmedInterval
+        );
+        break;
+      case "removeSamples":
+        this.removeSamples(operation.startInMicros, operation.endInMicros);
+        break;
+      case "requireRandomAccessPoint":
+        this.requireRandomAccessPoint();
+        break;
+      case "reconfigure":
+        this.reconfigure(operation.codecConfig);
+        break;
+    }
+  }
+
+  addSample(
+    sample: CodedFrameData,
+    pts: number,
+    dts: number,
+    frameDuration: number,
+    trimmedInterval?: TimeRange
+  ): void {
+    this.observer?.({
+      type: "addSample",
+      sample,
+      pts,
+      dts,
+      frameDuration,
+      trimmedInterval
+    });
     // https://w3c.github.io/media-source/#sourcebuffer-coded-frame-processing
-    // 1.1. Let presentation timestamp be a double precision floating point representation
-    //      of the coded frame's presentation timestamp in seconds.
-    const pts = sample.cts / sample.timescale;
-    // 1.2. Let decode timestamp be a double precision floating point representation
-    //      of the coded frame's decode timestamp in seconds.
-    const dts = sample.dts / sample.timescale;
-    // 2. Let frame duration be a double precision floating point representation
-    //    of the coded frame's duration in seconds.
-    const frameDuration = sample.duration / sample.timescale;
     // 7. Let frame end timestamp equal the sum of presentation timestamp and frame duration.
-    const frameEndTimestamp = (sample.cts + sample.duration) / sample.timescale;
+    //    If the frame was trimmed by the append window, only its remaining part is presented.
+    //    A frame with an empty presentation interval (i.e. an audio priming frame) is not presented,
+    //    but it still ends at its frame end timestamp.
+    const [presentationStart, presentationEnd] = trimmedInterval ?? [
+      pts,
+      pts + frameDuration
+    ];
+    const isPresented = presentationStart < presentationEnd;
+    const frameEndTimestamp = isPresented
+      ? presentationEnd
+      : pts + frameDuration;
     // 16. Add the coded frame with the presentation timestamp, decode timestamp,
     //     and frame duration to the track buffer.
-    this.addCodedFrame(sample);
-    this.trackBufferRanges = this.trackBufferRanges.union(
-      new TimeRanges([[pts, frameEndTimestamp]]),
-      BUFFERED_TOLERANCE
+    const frame = this.addCodedFrame(
+      sample,
+      pts,
+      frameDuration,
+      trimmedInterval
     );
+    if (sample.encryption !== undefined) {
+      this.#frameEncryptions.set(frame, sample.encryption);
+    }
+    this.#lastFrame = frame;
+    if (isPresented) {
+      this.trackBufferRanges = this.trackBufferRanges.union(
+        new TimeRanges([[presentationStart, frameEndTimestamp]]),
+        BUFFERED_TOLERANCE
+      );
+    }
     // 17. Set last decode timestamp for track buffer to decode timestamp.
     this.lastDecodeTimestamp = dts;
     // 18. Set last frame duration for track buffer to frame duration.
@@ -78,7 +170,17 @@ export abstract class TrackBuffer<T extends EncodedChunk = EncodedChunk> {
     }
   }
 
-  protected abstract addCodedFrame(sample: Sample): void;
+  protected abstract addCodedFrame(
+    sample: CodedFrameData,
+    pts: number,
+    frameDuration: number,
+    trimmedInterval?: TimeRange
+  ): T;
+
+  // Returns the encryption parameters of the frame, if it is encrypted.
+  getEncryption(frame: T): SampleEncryption | undefined {
+    return this.#frameEncryptions.get(frame);
+  }
 
   abstract findFrameForTime(time: number): T | undefined;
 
@@ -96,7 +198,22 @@ export abstract class TrackBuffer<T extends EncodedChunk = EncodedChunk> {
     timeInMicros: number
   ): number | undefined;
 
-  abstract removeSamples(startInMicros: number, endInMicros: number): void;
+  // Whether the coded frame with the last decode timestamp was removed from this track buffer.
+  hasRemovedLastFrame(): boolean {
+    return this.#lastFrame !== undefined && !this.hasFrame(this.#lastFrame);
+  }
+
+  removeSamples(startInMicros: number, endInMicros: number): void {
+    this.observer?.({ type: "removeSamples", startInMicros, endInMicros });
+    this.removeCodedFrames(startInMicros, endInMicros);
+  }
+
+  protected abstract removeCodedFrames(
+    startInMicros: number,
+    endInMicros: number
+  ): void;
+
+  abstract getEvictionCandidates(): EvictionCandidate[];
 }
 
 export interface AudioDecodeQueue extends DecodeQueue {
@@ -105,31 +222,60 @@ export interface AudioDecodeQueue extends DecodeQueue {
 }
 
 export class AudioTrackBuffer extends TrackBuffer<EncodedAudioChunk> {
-  protected declare codecConfig: AudioDecoderConfig;
+  declare codecConfig: AudioDecoderConfig;
   #frames: EncodedAudioChunk[] = [];
+  // Presentation intervals (in microseconds) of frames that were partially
+  // trimmed by the append window. Their decoded audio must be trimmed as well.
+  // Priming frames have an empty presentation interval: they are decoded, but never presented.
+  #trimmedIntervals: WeakMap<EncodedAudioChunk, TimeRange> = new WeakMap();
+  // Decoder configuration of each frame, since it can change after changeType().
+  #frameCodecConfigs: WeakMap<EncodedAudioChunk, AudioDecoderConfig> =
+    new WeakMap();
 
   constructor(trackId: number, codecConfig: AudioDecoderConfig) {
     super("audio", trackId, codecConfig);
   }
 
-  protected addCodedFrame(sample: Sample): void {
-    // FIXME Store codecConfig
+  protected addCodedFrame(
+    sample: CodedFrameData,
+    pts: number,
+    frameDuration: number,
+    trimmedInterval?: TimeRange
+  ): EncodedAudioChunk {
     const frame = new EncodedAudioChunk({
-      timestamp: (1e6 * sample.cts) / sample.timescale,
-      duration: (1e6 * sample.duration) / sample.timescale,
+      timestamp: 1e6 * pts,
+      duration: 1e6 * frameDuration,
       data: sample.data,
       type: sample.is_sync ? "key" : "delta"
     });
+    this.#frameCodecConfigs.set(frame, this.codecConfig);
+    this.byteLength += frame.byteLength;
+    if (trimmedInterval !== undefined) {
+      this.#trimmedIntervals.set(frame, [
+        1e6 * trimmedInterval[0],
+        1e6 * trimmedInterval[1]
+      ]);
+    }
     insertSorted(this.#frames, frame, (x) => x.timestamp);
+    return frame;
+  }
+
+  // Returns the part of the frame that should be presented, in microseconds.
+  getPresentationInterval(frame: EncodedAudioChunk): TimeRange {
+    return (
+      this.#trimmedIntervals.get(frame) ?? [
+        frame.timestamp,
+        frame.timestamp + frame.duration!
+      ]
+    );
   }
 
   findFrameForTime(time: number): EncodedAudioChunk | undefined {
     const timeInMicros = Math.floor(time * 1e6);
-    return this.#frames.find(
-      (frame) =>
-        frame.timestamp <= timeInMicros &&
-        timeInMicros < frame.timestamp + frame.duration!
-    );
+    return this.#frames.find((frame) => {
+      const [start, end] = this.getPresentationInterval(frame);
+      return start <= timeInMicros && timeInMicros < end;
+    });
   }
 
   hasFrame(frame: EncodedAudioChunk): boolean {
@@ -137,12 +283,27 @@ export class AudioTrackBuffer extends TrackBuffer<EncodedAudioChunk> {
   }
 
   getDecodeDependenciesForFrame(frame: EncodedAudioChunk): AudioDecodeQueue {
+    // The decoder must be primed with the priming frames right before this frame.
+    const codecConfig = this.#getCodecConfigForFrame(frame);
+    let startIndex = this.#frames.indexOf(frame);
+    while (
+      startIndex > 0 &&
+      this.#isPrimingFrame(this.#frames[startIndex - 1]) &&
+      this.#getCodecConfigForFrame(this.#frames[startIndex - 1]) === codecConfig
+    ) {
+      startIndex--;
+    }
     return {
-      frames: [frame],
-      codecConfig: this.codecConfig
+      frames: this.#frames.slice(startIndex, this.#frames.indexOf(frame) + 1),
+      codecConfig
     };
   }
 
+  #isPrimingFrame(frame: EncodedAudioChunk): boolean {
+    const [start, end] = this.getPresentationInterval(frame);
+    return start >= end;
+  }
+
   getNextFrames(
     frame: EncodedAudioChunk,
     maxAmount: number,
@@ -157,35 +318,62 @@ export class AudioTrackBuffer extends TrackBuffer<EncodedAudioChunk> {
       if (nextIndex >= this.#frames.length) {
         return undefined;
       }
-      return {
-        frames: this.#frames.slice(nextIndex, nextIndex + maxAmount),
-        codecConfig: this.codecConfig
-      };
+      return this.#createDecodeQueue(
+        this.#frames.slice(nextIndex, nextIndex + maxAmount),
+        direction
+      );
     } else {
       const nextIndex = frameIndex - 1;
       if (nextIndex < 0) {
         return undefined;
       }
-      return {
-        frames: this.#frames.slice(
-          Math.max(0, nextIndex - maxAmount),
-          nextIndex
-        ),
-        codecConfig: this.codecConfig
-      };
+      return this.#createDecodeQueue(
+        this.#frames.slice(Math.max(0, nextIndex - maxAmount), nextIndex),
+        direction
+      );
     }
   }
 
+  #createDecodeQueue(
+    frames: EncodedAudioChunk[],
+    direction: Direction
+  ): AudioDecodeQueue {
+    // All frames in a decode queue must share the same decoder configuration.
+    // Stop at the first frame (in decoding order) that uses a different configuration.
+    if (direction === Direction.BACKWARD) {
+      frames.reverse();
+    }
+    const codecConfig = this.#getCodecConfigForFrame(frames[0]);
+    const endIndex = frames.findIndex(
+      (frame) => this.#getCodecConfigForFrame(frame) !== codecConfig
+    );
+    if (endIndex >= 0) {
+      frames.length = endIndex;
+    }
+    if (direction === Direction.BACKWARD) {
+      frames.reverse();
+    }
+    return { frames, codecConfig };
+  }
+
+  #getCodecConfigForFrame(frame: EncodedAudioChunk): AudioDecoderConfig {
+    return this.#frameCodecConfigs.get(frame) ?? this.codecConfig;
+  }
+
   getRandomAccessPointAtOrAfter(timeInMicros: number): number | undefined {
     return this.#frames.find((frame) => frame.timestamp >= timeInMicros)
       ?.timestamp;
   }
 
-  removeSamples(startInMicros: number, endInMicros: number): void {
+  protected removeCodedFrames(
+    startInMicros: number,
+    endInMicros: number
+  ): void {
     let didRemove: boolean = false;
     for (let i = this.#frames.length - 1; i >= 0; i--) {
-      const frame = this.#frames[i];
-      if (frame.timestamp >= startInMicros && frame.timestamp < endInMicros) {
+      const [start] = this.getPresentationInterval(this.#frames[i]);
+      if (start >= startInMicros && start < endInMicros) {
+        this.byteLength -= this.#frames[i].byteLength;
         arrayRemoveAt(this.#frames, i);
         didRemove = true;
       }
@@ -195,12 +383,37 @@ export class AudioTrackBuffer extends TrackBuffer<EncodedAudioChunk> {
     }
   }
 
+  getEvictionCandidates(): EvictionCandidate[] {
+    // Priming frames are evicted together with the frame that they prime.
+    const candidates: EvictionCandidate[] = [];
+    let primingStart: number | undefined = undefined;
+    let primingByteLength = 0;
+    for (const frame of this.#frames) {
+      const [start, end] = this.getPresentationInterval(frame);
+      if (start >= end) {
+        primingStart ??= start;
+        primingByteLength += frame.byteLength;
+        continue;
+      }
+      candidates.push({
+        start: primingStart ?? start,
+        end,
+        byteLength: primingByteLength + frame.byteLength
+      });
+      primingStart = undefined;
+      primingByteLength = 0;
+    }
+    return candidates;
+  }
+
   #updateTrackBufferRanges(): void {
     this.trackBufferRanges = new TimeRanges(
-      this.#frames.map((frame) => [
-        frame.timestamp / 1e6,
-        (frame.timestamp + frame.duration!) / 1e6
-      ])
+      this.#frames
+        .filter((frame) => !this.#isPrimingFrame(frame))
+        .map((frame): TimeRange => {
+          const [start, end] = this.getPresentationInterval(frame);
+          return [start / 1e6, end / 1e6];
+        })
     ).mergeOverlaps(BUFFERED_TOLERANCE);
   }
 }
@@ -218,7 +431,7 @@ interface GroupOfPictures {
 }
 
 export class VideoTrackBuffer extends TrackBuffer<EncodedVideoChunk> {
-  protected declare codecConfig: VideoDecoderConfig;
+  declare codecConfig: VideoDecoderConfig;
   #gops: Array<GroupOfPictures> = [];
   #currentGop: GroupOfPictures | undefined = undefined;
 
@@ -226,13 +439,18 @@ export class VideoTrackBuffer extends TrackBuffer<EncodedVideoChunk> {
     super("video", trackId, codecConfig);
   }
 
-  protected addCodedFrame(sample: Sample): void {
+  protected addCodedFrame(
+    sample: CodedFrameData,
+    pts: number,
+    frameDuration: number
+  ): EncodedVideoChunk {
     const frame = new EncodedVideoChunk({
-      timestamp: (1e6 * sample.cts) / sample.timescale,
-      duration: (1e6 * sample.duration) / sample.timescale,
+      timestamp: 1e6 * pts,
+      duration: 1e6 * frameDuration,
       data: sample.data,
       type: sample.is_sync ? "key" : "delta"
     });
+    this.byteLength += frame.byteLength;
     if (this.#currentGop === undefined || frame.type === "key") {
       const gop: GroupOfPictures = {
         start: frame.timestamp,
@@ -249,6 +467,7 @@ export class VideoTrackBuffer extends TrackBuffer<EncodedVideoChunk> {
       );
       this.#currentGop.frames.push(frame);
     }
+    return frame;
   }
 
   requireRandomAccessPoint(): void {
@@ -346,7 +565,10 @@ export class VideoTrackBuffer extends TrackBuffer<EncodedVideoChunk> {
     return this.#gops.find((gop) => gop.start >= timeInMicros)?.start;
   }
 
-  removeSamples(startInMicros: number, endInMicros: number): void {
+  protected removeCodedFrames(
+    startInMicros: number,
+    endInMicros: number
+  ): void {
     // https://w3c.github.io/media-source/#dfn-coded-frame-removal
     // 3.3. Remove all media data, from this track buffer, that contain starting timestamps
     //      greater than or equal to start and less than the remove end timestamp.
@@ -365,13 +587,14 @@ export class VideoTrackBuffer extends TrackBuffer<EncodedVideoChunk> {
         // Keep entire GOP.
       } else if (removeFrom === 0) {
         // Remove entire GOP.
+        this.byteLength -= getByteLength(gop.frames);
         arrayRemoveAt(this.#gops, i);
         didRemove = true;
       } else {
         // Remove some frames.
         const lastFrame = gop.frames[removeFrom - 1];
         gop.end = lastFrame.timestamp + lastFrame.duration!;
-        gop.frames.splice(removeFrom);
+        this.byteLength -= getByteLength(gop.frames.splice(removeFrom));
         didRemove = true;
       }
     }
@@ -380,9 +603,23 @@ export class VideoTrackBuffer extends TrackBuffer<EncodedVideoChunk> {
     }
   }
 
+  getEvictionCandidates(): EvictionCandidate[] {
+    // A GOP can only be evicted as a whole, since all of its frames
+    // depend on its first frame.
+    return this.#gops.map((gop) => ({
+      start: gop.start,
+      end: gop.end,
+      byteLength: getByteLength(gop.frames)
+    }));
+  }
+
   #updateTrackBufferRanges(): void {
     this.trackBufferRanges = new TimeRanges(
       this.#gops.map((gop) => [gop.start / 1e6, gop.end / 1e6])
     ).mergeOverlaps(BUFFERED_TOLERANCE);
   }
 }
+
+function getByteLength(frames: readonly EncodedChunk[]): number {
+  return frames.reduce((sum, frame) => sum + frame.byteLength, 0);
+}
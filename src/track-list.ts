@@ -0,0 +1,211 @@
+import { arrayRemove, queueTask } from "./util";
+import { BabyTextTrack } from "./text-track";
+
+export interface MediaTrackInit {
+  id: string;
+  kind: string;
+  label: string;
+  language: string;
+}
+
+export let addTrackToList: <T extends BabyMediaTrack>(
+  trackList: BabyTrackList<T>,
+  track: T
+) => void;
+export let removeTrackFromList: <T extends BabyMediaTrack>(
+  trackList: BabyTrackList<T>,
+  track: T
+) => void;
+// Registers a callback that runs whenever a track is enabled/disabled or selected/unselected.
+export let observeTrack: (track: BabyMediaTrack, observer: () => void) => void;
+
+let getTrackLists: <T extends BabyMediaTrack>(
+  track: T
+) => Array<BabyTrackList<T>>;
+let notifyTrackObservers: (track: BabyMediaTrack) => void;
+let queueChangeEvent: (trackList: EventTarget) => void;
+
+export interface TrackEventInit extends EventInit {
+  track?: BabyMediaTrack | BabyTextTrack | null;
+}
+
+export class BabyTrackEvent extends Event {
+  readonly track: BabyMediaTrack | BabyTextTrack | null;
+
+  constructor(type: string, init: TrackEventInit = {}) {
+    super(type, init);
+    this.track = init.track ?? null;
+  }
+}
+
+export abstract class BabyMediaTrack {
+  readonly id: string;
+  readonly kind: string;
+  readonly label: string;
+  readonly language: string;
+  readonly #trackLists: Array<BabyTrackList<BabyMediaTrack>> = [];
+  readonly #observers: Array<() => void> = [];
+
+  constructor(init: MediaTrackInit) {
+    this.id = init.id;
+    this.kind = init.kind;
+    this.label = init.label;
+    this.language = init.language;
+  }
+
+  static {
+    getTrackLists = <T extends BabyMediaTrack>(track: T) =>
+      track.#trackLists as Array<BabyTrackList<T>>;
+    notifyTrackObservers = (track) => {
+      for (const observer of track.#observers) {
+        observer();
+      }
+    };
+    observeTrack = (track, observer) => track.#observers.push(observer);
+  }
+}
+
+export class BabyAudioTrack extends BabyMediaTrack {
+  #enabled: boolean = false;
+
+  get enabled(): boolean {
+    return this.#enabled;
+  }
+
+  set enabled(enabled: boolean) {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-audiotrack-enabled
+    // On setting, it must enable the track if the new value is true, and disable it otherwise.
+    // Whenever an audio track in an AudioTrackList that was disabled is enabled, and whenever
+    // one that was enabled is disabled, the user agent must queue a media element task
+    // to fire an event named change at the AudioTrackList object.
+    enabled = Boolean(enabled);
+    if (this.#enabled === enabled) {
+      return;
+    }
+    this.#enabled = enabled;
+    for (const trackList of getTrackLists(this)) {
+      queueChangeEvent(trackList);
+    }
+    notifyTrackObservers(this);
+  }
+}
+
+export class BabyVideoTrack extends BabyMediaTrack {
+  #selected: boolean = false;
+
+  get selected(): boolean {
+    return this.#selected;
+  }
+
+  set selected(selected: boolean) {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-videotrack-selected
+    // On setting, it must select the track if the new value is true, and unselect it otherwise.
+    // If the track is in a VideoTrackList, then all the other VideoTrack objects in that list
+    // must be unselected.
+    // Whenever a track in a VideoTrackList that was previously not selected is selected,
+    // and whenever the selected track in a VideoTrackList is unselected without a new track
+    // being selected in its stead, the user agent must queue a media element task
+    // to fire an event named change at the VideoTrackList.
+    selected = Boolean(selected);
+    if (this.#selected === selected) {
+      return;
+    }
+    this.#selected = selected;
+    const unselectedTracks: BabyVideoTrack[] = [];
+    if (selected) {
+      for (const trackList of getTrackLists(this)) {
+        for (const otherTrack of trackList) {
+          if (otherTrack !== this && otherTrack.#selected) {
+            otherTrack.#selected = false;
+            unselectedTracks.push(otherTrack);
+          }
+        }
+      }
+    }
+    for (const trackList of getTrackLists(this)) {
+      queueChangeEvent(trackList);
+    }
+    for (const unselectedTrack of unselectedTracks) {
+      notifyTrackObservers(unselectedTrack);
+    }
+    notifyTrackObservers(this);
+  }
+}
+
+export abstract class BabyTrackList<T extends BabyMediaTrack>
+  extends EventTarget
+  implements Iterable<T>
+{
+  readonly [index: number]: T;
+  readonly #tracks: T[] = [];
+
+  get length(): number {
+    return this.#tracks.length;
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.#tracks.values();
+  }
+
+  getTrackById(id: string): T | null {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-audiotracklist-gettrackbyid
+    return this.#tracks.find((track) => track.id === id) ?? null;
+  }
+
+  #add(track: T): void {
+    if (this.#tracks.includes(track)) {
+      return;
+    }
+    const index = this.#tracks.length;
+    this.#tracks.push(track);
+    getTrackLists(track).push(this);
+    // Expose the new track through an indexed getter.
+    Object.defineProperty(this, index, {
+      configurable: true,
+      enumerable: true,
+      get: () => this.#tracks[index]
+    });
+    queueTask(() =>
+      this.dispatchEvent(new BabyTrackEvent("addtrack", { track }))
+    );
+  }
+
+  #remove(track: T): void {
+    if (!this.#tracks.includes(track)) {
+      return;
+    }
+    arrayRemove(this.#tracks, track);
+    arrayRemove(getTrackLists(track), this);
+    // The list has become shorter, so remove the last indexed getter.
+    delete (this as Record<number, T>)[this.#tracks.length];
+    queueTask(() =>
+      this.dispatchEvent(new BabyTrackEvent("removetrack", { track }))
+    );
+  }
+
+  static {
+    addTrackToList = (trackList, track) => trackList.#add(track);
+    removeTrackFromList = (trackList, track) => trackList.#remove(track);
+    queueChangeEvent = (trackList) =>
+      queueTask(() => trackList.dispatchEvent(new Event("change")));
+  }
+}
+
+export class BabyAudioTrackList extends BabyTrackList<BabyAudioTrack> {}
+
+export class BabyVideoTrackList extends BabyTrackList<BabyVideoTrack> {
+  get selectedIndex(): number {
+    // https://html.spec.whatwg.org/multipage/media.html#dom-videotracklist-selectedindex
+    // The selectedIndex attribute must return the index of the currently selected track,
+    // if any. If the VideoTrackList object does not currently represent any tracks,
+    // or if none of the tracks are selected, it must instead return −1.
+    let index = 0;
+    for (const track of this) {
+      if (track.selected) {
+        return index;
+      }
+      index++;
+    }
+    return -1;
+  }
+}
@@ -18,6 +18,20 @@ export function concatUint8Arrays(
   return result;
 }
 
+export function toHex(data: Uint8Array): string {
+  return Array.from(data, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(2 * i, 2 * i + 2), 16);
+  }
+  return bytes;
+}
+
 export function arrayRemove<T>(array: T[], element: T): void {
   arrayRemoveAt(array, array.indexOf(element));
 }
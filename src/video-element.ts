@@ -1,13 +1,14 @@
 import stylesheet from "./style.css?inline";
+import { attachToMediaElement, BabyMediaSource } from "./media-source";
 import {
-  attachToMediaElement,
-  BabyMediaSource,
-  checkBuffer,
-  detachFromMediaElement,
-  getActiveAudioTrackBuffer,
-  getActiveVideoTrackBuffer,
-  getBuffered
-} from "./media-source";
+  attachToMediaSourceHandle,
+  BabyMediaSourceHandle
+} from "./media-source-handle";
+import {
+  MediaElementAttachment,
+  MediaReadyState,
+  MediaSourceAttachment
+} from "./attachment";
 import {
   arrayRemove,
   arrayRemoveAt,
@@ -18,33 +19,61 @@ import {
   waitForEvent
 } from "./util";
 import { TimeRange, TimeRanges } from "./time-ranges";
+import { BabyMediaError } from "./media-error";
 import {
   AudioDecodeQueue,
+  AudioTrackBuffer,
   EncodedChunk,
-  VideoDecodeQueue
+  VideoDecodeQueue,
+  VideoTrackBuffer
 } from "./track-buffer";
+import {
+  addTrackToList,
+  BabyAudioTrack,
+  BabyAudioTrackList,
+  BabyMediaTrack,
+  BabyVideoTrack,
+  BabyVideoTrackList,
+  removeTrackFromList
+} from "./track-list";
+import {
+  addTextTrackToList,
+  BabyDataCue,
+  BabyTextTrack,
+  BabyTextTrackCue,
+  BabyTextTrackList,
+  EventMessageCueValue,
+  getTrackCues,
+  isCueActive,
+  removeTextTrackFromList,
+  setCueActive
+} from "./text-track";
+import { EventMessage } from "./byte-stream-format";
+import {
+  attachMediaKeys,
+  BabyMediaEncryptedEvent,
+  BabyMediaKeys,
+  detachMediaKeys,
+  findDecryptionKey
+} from "./media-keys";
+import { DecryptionQueue } from "./decryption-queue";
 
 const template = document.createElement("template");
 template.innerHTML = `<style>${stylesheet}</style>`;
 
-export enum MediaReadyState {
-  HAVE_NOTHING,
-  HAVE_METADATA,
-  HAVE_CURRENT_DATA,
-  HAVE_FUTURE_DATA,
-  HAVE_ENOUGH_DATA
+export enum MediaNetworkState {
+  NETWORK_EMPTY,
+  NETWORK_IDLE,
+  NETWORK_LOADING,
+  NETWORK_NO_SOURCE
 }
 
-export let updateDuration: (
-  videoElement: BabyVideoElement,
-  newDuration: number
-) => void;
-export let updateReadyState: (
-  videoElement: BabyVideoElement,
-  newReadyState: MediaReadyState
-) => void;
-export let notifyProgress: (videoElement: BabyVideoElement) => void;
-export let notifyEndOfStream: (videoElement: BabyVideoElement) => void;
+// An event that is fired at a text track cue by the time marches on steps.
+interface CueEvent {
+  type: "enter" | "exit";
+  cue: BabyTextTrackCue;
+  time: number;
+}
 
 // Low and high watermark for decode queue
 // If the queue drops below the LWM, we try to fill it with up to HWM new frames
@@ -63,14 +92,23 @@ export class BabyVideoElement extends HTMLElement {
   #currentTime: number = 0;
   #duration: number = NaN;
   #ended: boolean = false;
+  #error: BabyMediaError | null = null;
   #muted: boolean = false;
+  #networkState: MediaNetworkState = MediaNetworkState.NETWORK_EMPTY;
   #paused: boolean = true;
   #playbackRate: number = 1;
   #played: TimeRanges = new TimeRanges([]);
   #readyState: MediaReadyState = MediaReadyState.HAVE_NOTHING;
   #seeking: boolean = false;
-  #srcObject: BabyMediaSource | undefined;
+  #srcObject: BabyMediaSource | BabyMediaSourceHandle | undefined;
+  #mediaSource: MediaSourceAttachment | undefined;
+  readonly #audioTracks: BabyAudioTrackList = new BabyAudioTrackList();
+  readonly #videoTracks: BabyVideoTrackList = new BabyVideoTrackList();
+  readonly #textTracks: BabyTextTrackList = new BabyTextTrackList();
   #volume: number = 1;
+  #mediaKeys: BabyMediaKeys | null = null;
+  #waitingForKey: boolean = false;
+  #pendingKeyPromises: Array<Deferred<void>> = [];
 
   #pendingPlayPromises: Array<Deferred<void>> = [];
   #advanceLoop: number = 0;
@@ -78,6 +116,7 @@ export class BabyVideoElement extends HTMLElement {
   #lastAudioTimestamp: number = 0;
   #lastPlayedTime: number = NaN;
   #lastTimeUpdate: number = 0;
+  #lastTimeMarchesOnPosition: number = NaN;
   #lastProgress: number = 0;
   #nextProgressTimer: number = 0;
   #hasFiredLoadedData: boolean = false;
@@ -93,6 +132,7 @@ export class BabyVideoElement extends HTMLElement {
   #lastRenderedFrame: number | undefined = undefined;
   #nextRenderFrame: number = 0;
   #needKeyFrame: boolean = true;
+  readonly #videoDecryptionQueue: DecryptionQueue<EncodedVideoChunk>;
 
   readonly #audioDecoder: AudioDecoder;
   #lastAudioDecoderConfig: AudioDecoderConfig | undefined = undefined;
@@ -103,6 +143,7 @@ export class BabyVideoElement extends HTMLElement {
   #originalDecodingAudioFrames: WeakMap<EncodedAudioChunk, EncodedAudioChunk> =
     new WeakMap();
   #decodedAudioFrames: AudioData[] = [];
+  readonly #audioDecryptionQueue: DecryptionQueue<EncodedAudioChunk>;
 
   #audioContext: AudioContext | undefined;
   #lastScheduledAudioFrameTime: number = -1;
@@ -140,6 +181,18 @@ export class BabyVideoElement extends HTMLElement {
       output: (data) => this.#onAudioData(data),
       error: (error) => console.error("WTF", error)
     });
+
+    // Encrypted frames are only decrypted right before they are decoded.
+    this.#videoDecryptionQueue = new DecryptionQueue(
+      (frame) => this.#videoDecoder.decode(frame),
+      (keyId, signal) => this.#getDecryptionKey(keyId, signal),
+      (error) => this.#decryptionError(error)
+    );
+    this.#audioDecryptionQueue = new DecryptionQueue(
+      (frame) => this.#audioDecoder.decode(frame),
+      (keyId, signal) => this.#getDecryptionKey(keyId, signal),
+      (error) => this.#decryptionError(error)
+    );
   }
 
   connectedCallback(): void {
@@ -161,8 +214,12 @@ export class BabyVideoElement extends HTMLElement {
     }
   }
 
+  get audioTracks(): BabyAudioTrackList {
+    return this.#audioTracks;
+  }
+
   get buffered(): TimeRanges {
-    return this.#srcObject ? getBuffered(this.#srcObject) : new TimeRanges([]);
+    return this.#mediaSource?.buffered ?? new TimeRanges([]);
   }
 
   get currentTime(): number {
@@ -190,6 +247,10 @@ export class BabyVideoElement extends HTMLElement {
     return this.#ended && this.#playbackRate >= 0;
   }
 
+  get mediaKeys(): BabyMediaKeys | null {
+    return this.#mediaKeys;
+  }
+
   get muted(): boolean {
     return this.#muted;
   }
@@ -202,6 +263,14 @@ export class BabyVideoElement extends HTMLElement {
     }
   }
 
+  get error(): BabyMediaError | null {
+    return this.#error;
+  }
+
+  get networkState(): MediaNetworkState {
+    return this.#networkState;
+  }
+
   get paused(): boolean {
     return this.#paused;
   }
@@ -236,26 +305,32 @@ export class BabyVideoElement extends HTMLElement {
   }
 
   get seekable(): TimeRanges {
-    return new TimeRanges([[0, this.#duration]]);
+    return this.#mediaSource?.seekable ?? new TimeRanges([]);
   }
 
   get seeking(): boolean {
     return this.#seeking;
   }
 
-  get srcObject(): BabyMediaSource | undefined {
+  get srcObject(): BabyMediaSource | BabyMediaSourceHandle | undefined {
     return this.#srcObject;
   }
 
-  set srcObject(srcObject: BabyMediaSource | undefined) {
-    if (this.#srcObject) {
-      detachFromMediaElement(this.#srcObject);
-    }
+  set srcObject(
+    srcObject: BabyMediaSource | BabyMediaSourceHandle | undefined
+  ) {
+    this.#mediaSource?.detach();
+    this.#mediaSource = undefined;
+    this.#forgetMediaResourceSpecificTracks();
     this.#srcObject = srcObject;
     this.#currentTime = 0;
     this.#duration = NaN;
     this.#hasFiredLoadedData = false;
     this.#ended = false;
+    this.#error = null;
+    this.#networkState = srcObject
+      ? MediaNetworkState.NETWORK_LOADING
+      : MediaNetworkState.NETWORK_EMPTY;
     this.#paused = true;
     this.#played = new TimeRanges([]);
     this.#readyState = MediaReadyState.HAVE_NOTHING;
@@ -267,13 +342,64 @@ export class BabyVideoElement extends HTMLElement {
     this.#lastPlayedTime = NaN;
     clearTimeout(this.#nextProgressTimer);
     this.#lastTimeUpdate = 0;
+    this.#lastTimeMarchesOnPosition = NaN;
+    this.#waitingForKey = false;
     this.#updatePlaying();
     queueTask(() => this.dispatchEvent(new Event("emptied")));
-    if (srcObject) {
-      attachToMediaElement(srcObject, this);
+    if (srcObject instanceof BabyMediaSource) {
+      this.#mediaSource = attachToMediaElement(
+        srcObject,
+        this.#createMediaElementAttachment()
+      );
+    } else if (srcObject) {
+      this.#mediaSource = attachToMediaSourceHandle(
+        srcObject,
+        this.#createMediaElementAttachment()
+      );
     }
   }
 
+  #createMediaElementAttachment(): MediaElementAttachment {
+    const element = this;
+    return {
+      get currentTime() {
+        return element.currentTime;
+      },
+      get playbackRate() {
+        return element.playbackRate;
+      },
+      get readyState() {
+        return element.readyState;
+      },
+      get error() {
+        return element.error;
+      },
+      updateDuration: (newDuration) => this.#updateDuration(newDuration),
+      updateReadyState: (newReadyState) =>
+        this.#updateReadyState(newReadyState),
+      notifyProgress: () => this.#notifyProgress(),
+      notifyEndOfStream: () => this.#notifyEndOfStream(),
+      notifyActiveTracksChanged: () => this.#notifyActiveTracksChanged(),
+      // The element reads from the track buffers directly.
+      notifyTrackBufferAdded: () => {},
+      addTrack: (track) => this.#addTrack(track),
+      removeTrack: (track) => this.#removeTrack(track),
+      addEventMessages: (events) => this.#addEventMessages(events),
+      notifyEncrypted: (initDataType, initData) =>
+        this.#notifyEncrypted(initDataType, initData),
+      mediaSourceFailure: (message) => this.#mediaSourceFailure(message),
+      mediaDataError: (error) => this.#mediaDataError(error)
+    };
+  }
+
+  get textTracks(): BabyTextTrackList {
+    return this.#textTracks;
+  }
+
+  get videoTracks(): BabyVideoTrackList {
+    return this.#videoTracks;
+  }
+
   get videoWidth(): number {
     return this.#canvas.width;
   }
@@ -298,6 +424,36 @@ export class BabyVideoElement extends HTMLElement {
     // TODO
   }
 
+  async setMediaKeys(mediaKeys: BabyMediaKeys | null): Promise<void> {
+    // https://w3c.github.io/encrypted-media/#dom-htmlmediaelement-setmediakeys
+    // 1. If mediaKeys and the mediaKeys attribute are the same object, return a resolved promise.
+    if (mediaKeys === this.#mediaKeys) {
+      return;
+    }
+    // 5.1. If mediaKeys is not null and the CDM instance represented by mediaKeys
+    //      is already in use by another media element,
+    //      reject promise with a QuotaExceededError.
+    if (
+      mediaKeys !== null &&
+      !attachMediaKeys(mediaKeys, () => this.#attemptToResumePlayback())
+    ) {
+      throw new DOMException(
+        "The MediaKeys are already in use by another media element",
+        "QuotaExceededError"
+      );
+    }
+    // 5.2. If the mediaKeys attribute is not null, dissociate it from the media element.
+    if (this.#mediaKeys !== null) {
+      detachMediaKeys(this.#mediaKeys);
+    }
+    // 5.3. Set the mediaKeys attribute to mediaKeys.
+    this.#mediaKeys = mediaKeys;
+    // 5.5. If mediaKeys is not null, run the Attempt to Resume Playback If Necessary algorithm.
+    if (mediaKeys !== null) {
+      this.#attemptToResumePlayback();
+    }
+  }
+
   play(): Promise<void> {
     // https://html.spec.whatwg.org/multipage/media.html#dom-media-play
     // 3. Let promise be a new promise and append promise to the list of pending play promises.
@@ -461,9 +617,7 @@ export class BabyVideoElement extends HTMLElement {
     this.#currentTime = currentTime;
     this.#decodeVideoFrames();
     this.#decodeAudio();
-    if (this.#srcObject) {
-      checkBuffer(this.#srcObject);
-    }
+    this.#mediaSource?.checkBuffer();
     this.#updatePlayed();
     this.#updateEnded();
   }
@@ -534,6 +688,41 @@ export class BabyVideoElement extends HTMLElement {
 
   #timeMarchesOn(isNormalPlayback: boolean, now: number): void {
     // https://html.spec.whatwg.org/multipage/media.html#time-marches-on
+    const currentPosition = this.#currentTime;
+    // 1. Let current cues be a list of cues, initialized to contain all the cues of all the hidden or showing
+    //    text tracks of the media element whose start times are less than or equal to the current playback position
+    //    and whose end times are greater than the current playback position.
+    // 2. Let other cues be a list of cues, initialized to contain all the cues of hidden and showing
+    //    text tracks of the media element that are not present in current cues.
+    const currentCues: BabyTextTrackCue[] = [];
+    const otherCues: BabyTextTrackCue[] = [];
+    for (const track of this.#textTracks) {
+      if (track.mode === "disabled") {
+        continue;
+      }
+      for (const cue of getTrackCues(track)) {
+        if (cue.startTime <= currentPosition && cue.endTime > currentPosition) {
+          currentCues.push(cue);
+        } else {
+          otherCues.push(cue);
+        }
+      }
+    }
+    // 3. Let last time be the current playback position at the time this algorithm was last run
+    //    for this media element, if this is not the first time it has run.
+    const lastTime = this.#lastTimeMarchesOnPosition;
+    this.#lastTimeMarchesOnPosition = currentPosition;
+    // 4. If the current playback position has, since the last time this algorithm was run,
+    //    only changed through its usual monotonic increase during normal playback,
+    //    then let missed cues be the list of cues in other cues whose start times are greater than
+    //    or equal to last time and whose end times are less than or equal to the current playback position.
+    //    Otherwise, let missed cues be an empty list.
+    const missedCues =
+      isNormalPlayback && !isNaN(lastTime)
+        ? otherCues.filter(
+            (cue) => cue.startTime >= lastTime && cue.endTime <= currentPosition
+          )
+        : [];
     // 6. If the time was reached through the usual monotonic increase of the current playback position during normal playback,
     //    and if the user agent has not fired a timeupdate event at the element in the past 15 to 250ms
     //    and is not still running event handlers for such an event,
@@ -543,6 +732,96 @@ export class BabyVideoElement extends HTMLElement {
       this.#lastTimeUpdate = now;
       queueTask(() => this.dispatchEvent(new Event("timeupdate")));
     }
+    // 7. If all of the cues in current cues have their text track cue active flag set,
+    //    none of the cues in other cues have their text track cue active flag set,
+    //    and missed cues is empty, then return.
+    if (
+      currentCues.every(isCueActive) &&
+      !otherCues.some(isCueActive) &&
+      missedCues.length === 0
+    ) {
+      return;
+    }
+    // 8. If the time was reached through the usual monotonic increase of the current playback position
+    //    during normal playback, and there are cues in other cues that have their text track cue
+    //    pause-on-exit flag set and that either have their text track cue active flag set
+    //    or are also in missed cues, then immediately pause the media element.
+    if (
+      isNormalPlayback &&
+      otherCues.some(
+        (cue) =>
+          cue.pauseOnExit && (isCueActive(cue) || missedCues.includes(cue))
+      )
+    ) {
+      this.#internalPause();
+    }
+    // 9. Let events be a list of tasks, initially empty.
+    const events: CueEvent[] = [];
+    // 10. For each text track cue in missed cues, prepare an event named enter
+    //     for the TextTrackCue object with the text track cue start time.
+    for (const cue of missedCues) {
+      events.push({ type: "enter", cue, time: cue.startTime });
+    }
+    // 11. For each text track cue in other cues that either has its text track cue active flag set
+    //     or is in missed cues, prepare an event named exit for the TextTrackCue object with
+    //     the later of the text track cue end time and the text track cue start time.
+    for (const cue of otherCues) {
+      if (isCueActive(cue) || missedCues.includes(cue)) {
+        events.push({
+          type: "exit",
+          cue,
+          time: Math.max(cue.startTime, cue.endTime)
+        });
+      }
+    }
+    // 12. For each text track cue in current cues that does not have its text track cue active flag set,
+    //     prepare an event named enter for the TextTrackCue object with the text track cue start time.
+    for (const cue of currentCues) {
+      if (!isCueActive(cue)) {
+        events.push({ type: "enter", cue, time: cue.startTime });
+      }
+    }
+    // 13. Sort the tasks in events in ascending time order (tasks with earlier times first).
+    //     Further sort tasks in events that have the same time by the relative text track cue order
+    //     of the text track cues associated with these tasks.
+    //     Finally, sort tasks in events that have the same time and same text track cue order
+    //     by placing tasks that fire enter events before those that fire exit events.
+    const textTracks = [...this.#textTracks];
+    const getCueOrder = (cue: BabyTextTrackCue): [number, number] => [
+      textTracks.indexOf(cue.track!),
+      getTrackCues(cue.track!).indexOf(cue)
+    ];
+    events.sort((a, b) => {
+      const [aTrack, aCue] = getCueOrder(a.cue);
+      const [bTrack, bCue] = getCueOrder(b.cue);
+      return (
+        a.time - b.time ||
+        aTrack - bTrack ||
+        aCue - bCue ||
+        (a.type === "enter" ? 0 : 1) - (b.type === "enter" ? 0 : 1)
+      );
+    });
+    // 14. Queue a media element task given the media element for each task in events, in list order.
+    for (const { type, cue } of events) {
+      queueTask(() => cue.dispatchEvent(new Event(type)));
+    }
+    // 15. Sort affected tracks in the same order as the text tracks appear
+    //     in the media element's list of text tracks, and remove duplicates.
+    // 16. For each text track in affected tracks, in the list order, queue a media element task
+    //     given the media element to fire an event named cuechange at the TextTrack object.
+    for (const track of textTracks) {
+      if (events.some(({ cue }) => cue.track === track)) {
+        queueTask(() => track.dispatchEvent(new Event("cuechange")));
+      }
+    }
+    // 17. Set the text track cue active flag of all the cues in the current cues,
+    //     and unset the text track cue active flag of all the cues in the other cues.
+    for (const cue of currentCues) {
+      setCueActive(cue, true);
+    }
+    for (const cue of otherCues) {
+      setCueActive(cue, false);
+    }
   }
 
   #seek(newPosition: number): void {
@@ -569,6 +848,17 @@ export class BabyVideoElement extends HTMLElement {
     if (newPosition < 0) {
       newPosition = 0;
     }
+    // 8. If the (possibly now changed) new playback position is not in one of the ranges given
+    //    in the seekable attribute, then let it be the position in one of the ranges given
+    //    in the seekable attribute that is the nearest to the new playback position.
+    //    If there are no ranges given in the seekable attribute, then set the seeking IDL attribute
+    //    to false and return.
+    const seekable = this.seekable;
+    if (seekable.length === 0) {
+      this.#seeking = false;
+      return;
+    }
+    newPosition = getNearestPosition(seekable, newPosition, this.#currentTime);
     // 10. Queue a media element task given the media element to fire an event named seeking at the element.
     queueTask(() => this.dispatchEvent(new Event("seeking")));
     // 11. Set the current playback position to the new playback position.
@@ -648,11 +938,7 @@ export class BabyVideoElement extends HTMLElement {
   }
 
   #decodeVideoFrames(): void {
-    const mediaSource = this.#srcObject;
-    if (!mediaSource) {
-      return;
-    }
-    const videoTrackBuffer = getActiveVideoTrackBuffer(mediaSource);
+    const videoTrackBuffer = this.#mediaSource?.getActiveVideoTrackBuffer();
     if (!videoTrackBuffer) {
       return;
     }
@@ -680,6 +966,7 @@ export class BabyVideoElement extends HTMLElement {
         return;
       }
       this.#processVideoDecodeQueue(
+        videoTrackBuffer,
         videoTrackBuffer.getDecodeDependenciesForFrame(frameAtTime),
         direction
       );
@@ -698,11 +985,12 @@ export class BabyVideoElement extends HTMLElement {
       if (nextQueue === undefined) {
         break;
       }
-      this.#processVideoDecodeQueue(nextQueue, direction);
+      this.#processVideoDecodeQueue(videoTrackBuffer, nextQueue, direction);
     }
   }
 
   #processVideoDecodeQueue(
+    videoTrackBuffer: VideoTrackBuffer,
     decodeQueue: VideoDecodeQueue,
     direction: Direction
   ): void {
@@ -712,11 +1000,12 @@ export class BabyVideoElement extends HTMLElement {
         `decode video frames: timestamp=${frames[0].timestamp} count=${frames.length}`
       );
     }
-    if (
-      this.#videoDecoder.state === "unconfigured" ||
-      this.#lastVideoDecoderConfig !== codecConfig
-    ) {
-      this.#videoDecoder.configure(codecConfig);
+    // The decoder may not be configured yet while earlier frames are being decrypted,
+    // so only compare with the last configuration (which is cleared when resetting the decoder).
+    if (this.#lastVideoDecoderConfig !== codecConfig) {
+      this.#videoDecryptionQueue.run(() =>
+        this.#videoDecoder.configure(codecConfig)
+      );
       this.#lastVideoDecoderConfig = codecConfig;
       this.#needKeyFrame = true;
     }
@@ -732,7 +1021,10 @@ export class BabyVideoElement extends HTMLElement {
           continue;
         }
       }
-      this.#videoDecoder.decode(frame);
+      this.#videoDecryptionQueue.enqueue(
+        frame,
+        videoTrackBuffer.getEncryption(frame)
+      );
       this.#decodingVideoFrames.push(frame);
     }
     // The "furthest decoded frame" depends on the rendering order,
@@ -867,15 +1159,12 @@ export class BabyVideoElement extends HTMLElement {
     this.#decodingVideoFrames.length = 0;
     this.#decodedVideoFrames.length = 0;
     this.#needKeyFrame = true;
+    this.#videoDecryptionQueue.reset();
     this.#videoDecoder.reset();
   }
 
   #decodeAudio(): void {
-    const mediaSource = this.#srcObject;
-    if (!mediaSource) {
-      return;
-    }
-    const audioTrackBuffer = getActiveAudioTrackBuffer(mediaSource);
+    const audioTrackBuffer = this.#mediaSource?.getActiveAudioTrackBuffer();
     if (!audioTrackBuffer) {
       return;
     }
@@ -903,6 +1192,7 @@ export class BabyVideoElement extends HTMLElement {
         return;
       }
       this.#processAudioDecodeQueue(
+        audioTrackBuffer,
         audioTrackBuffer.getDecodeDependenciesForFrame(frameAtTime),
         direction
       );
@@ -921,11 +1211,12 @@ export class BabyVideoElement extends HTMLElement {
       if (nextQueue === undefined) {
         break;
       }
-      this.#processAudioDecodeQueue(nextQueue, direction);
+      this.#processAudioDecodeQueue(audioTrackBuffer, nextQueue, direction);
     }
   }
 
   #processAudioDecodeQueue(
+    audioTrackBuffer: AudioTrackBuffer,
     decodeQueue: AudioDecodeQueue,
     direction: Direction
   ): void {
@@ -935,11 +1226,11 @@ export class BabyVideoElement extends HTMLElement {
         `decode audio frames: timestamp=${frames[0].timestamp} count=${frames.length}`
       );
     }
-    if (
-      this.#audioDecoder.state === "unconfigured" ||
-      this.#lastAudioDecoderConfig !== codecConfig
-    ) {
-      this.#audioDecoder.configure(codecConfig);
+    // As for video, the decoder may still be waiting for its configuration.
+    if (this.#lastAudioDecoderConfig !== codecConfig) {
+      this.#audioDecryptionQueue.run(() =>
+        this.#audioDecoder.configure(codecConfig)
+      );
       this.#lastAudioDecoderConfig = codecConfig;
     }
     if (direction === Direction.BACKWARD) {
@@ -959,7 +1250,10 @@ export class BabyVideoElement extends HTMLElement {
         this.#audioDecoderTimestamp
       );
       this.#originalDecodingAudioFrames.set(newFrame, frame);
-      this.#audioDecoder.decode(newFrame);
+      this.#audioDecryptionQueue.enqueue(
+        newFrame,
+        audioTrackBuffer.getEncryption(frame)
+      );
       this.#decodingAudioFrames.push(newFrame);
       this.#audioDecoderTimestamp += frame.duration!;
     }
@@ -985,11 +1279,23 @@ export class BabyVideoElement extends HTMLElement {
     const decodingFrame = this.#decodingAudioFrames[decodingFrameIndex];
     arrayRemoveAt(this.#decodingAudioFrames, decodingFrameIndex);
     // Restore original timestamp
+    const originalFrame = this.#originalDecodingAudioFrames.get(decodingFrame)!;
+    // Only keep the part of the frame that should be presented,
+    // e.g. if it was trimmed by the SourceBuffer's append window.
+    const presentationInterval = this.#mediaSource
+      ?.getActiveAudioTrackBuffer()
+      ?.getPresentationInterval(originalFrame);
     const decodedFrame = cloneAudioData(
       frame,
-      this.#originalDecodingAudioFrames.get(decodingFrame)!.timestamp
+      originalFrame.timestamp,
+      presentationInterval
     );
     frame.close();
+    if (decodedFrame === undefined) {
+      // Nothing of this frame should be presented, e.g. it only contains priming samples.
+      this.#decodeAudio();
+      return;
+    }
     // Drop frames that are beyond current time, since we're too late to render them.
     const currentTimeInMicros = Math.floor(1e6 * this.#currentTime);
     const direction =
@@ -1184,6 +1490,7 @@ export class BabyVideoElement extends HTMLElement {
     this.#decodedAudioFrames.length = 0;
     this.#scheduledAudioSourceNodes.length = 0;
     this.#lastScheduledAudioFrameTime = -1;
+    this.#audioDecryptionQueue.reset();
     this.#audioDecoder.reset();
   }
 
@@ -1234,7 +1541,19 @@ export class BabyVideoElement extends HTMLElement {
 
   #isPotentiallyPlaying(): boolean {
     // https://html.spec.whatwg.org/multipage/media.html#potentially-playing
-    return !this.#paused && !this.#hasEndedPlayback() && !this.#isBlocked();
+    return (
+      !this.#paused &&
+      !this.#hasEndedPlayback() &&
+      !this.#hasStoppedDueToErrors() &&
+      !this.#isBlocked()
+    );
+  }
+
+  #hasStoppedDueToErrors(): boolean {
+    // https://html.spec.whatwg.org/multipage/media.html#stopped-due-to-errors
+    return (
+      this.#error !== null && this.#readyState >= MediaReadyState.HAVE_METADATA
+    );
   }
 
   #isBlocked(): boolean {
@@ -1308,7 +1627,11 @@ export class BabyVideoElement extends HTMLElement {
       // paused for user interaction, or paused for in-band content,
       // the user agent must queue a media element task given the media element to fire an event named timeupdate at the element,
       // and queue a media element task given the media element to fire an event named waiting at the element.
-      if (wasPotentiallyPlaying && !this.#hasEndedPlayback()) {
+      if (
+        wasPotentiallyPlaying &&
+        !this.#hasEndedPlayback() &&
+        !this.#hasStoppedDueToErrors()
+      ) {
         queueTask(() => this.dispatchEvent(new Event("timeupdate")));
         queueTask(() => this.dispatchEvent(new Event("waiting")));
       }
@@ -1378,27 +1701,232 @@ export class BabyVideoElement extends HTMLElement {
     this.#isEndOfStream = true;
   }
 
-  static {
-    updateDuration = (videoElement: BabyVideoElement, newDuration: number) => {
-      videoElement.#updateDuration(newDuration);
-    };
-    updateReadyState = (
-      videoElement: BabyVideoElement,
-      newReadyState: MediaReadyState
-    ) => {
-      videoElement.#updateReadyState(newReadyState);
-    };
-    notifyProgress = (videoElement: BabyVideoElement) => {
-      videoElement.#notifyProgress();
-    };
-    notifyEndOfStream = (videoElement: BabyVideoElement) => {
-      videoElement.#notifyEndOfStream();
-    };
+  #forgetMediaResourceSpecificTracks(): void {
+    // https://html.spec.whatwg.org/multipage/media.html#forget-the-media-element's-media-resource-specific-tracks
+    for (const audioTrack of [...this.#audioTracks]) {
+      removeTrackFromList(this.#audioTracks, audioTrack);
+    }
+    for (const videoTrack of [...this.#videoTracks]) {
+      removeTrackFromList(this.#videoTracks, videoTrack);
+    }
+    for (const textTrack of [...this.#textTracks]) {
+      removeTextTrackFromList(this.#textTracks, textTrack);
+    }
+  }
+
+  #mediaSourceFailure(message: string): void {
+    // https://html.spec.whatwg.org/multipage/media.html#dedicated-media-source-failure-steps
+    // 1. Set the error attribute to the result of creating a MediaError with MEDIA_ERR_SRC_NOT_SUPPORTED.
+    this.#error = new BabyMediaError(
+      BabyMediaError.MEDIA_ERR_SRC_NOT_SUPPORTED,
+      message
+    );
+    // 2. Forget the media element's media-resource-specific tracks.
+    this.#forgetMediaResourceSpecificTracks();
+    this.#resetVideoDecoder();
+    this.#resetAudioDecoder();
+    // 3. Set the element's networkState attribute to the NETWORK_NO_SOURCE value.
+    this.#networkState = MediaNetworkState.NETWORK_NO_SOURCE;
+    // 5. Fire an event named error at the media element.
+    // 6. Reject pending play promises with promises and a "NotSupportedError" DOMException.
+    const promises = this.#takePendingPlayPromises();
+    queueTask(() => {
+      this.dispatchEvent(new Event("error"));
+      const error = new DOMException(message, "NotSupportedError");
+      promises.forEach((deferred) => deferred.reject(error));
+    });
+    this.#updatePlaying();
+  }
+
+  #mediaDataError(error: BabyMediaError): void {
+    // https://html.spec.whatwg.org/multipage/media.html#media-data-processing-steps-list
+    // If the connection is interrupted after some media data has been received,
+    // or if the media data is corrupted:
+    const now = performance.now();
+    const currentPlaybackPosition = this.#getCurrentPlaybackPosition(now);
+    this.#updatePlayed();
+    // 1. The user agent should cancel the fetching process.
+    // 2. Set the error attribute to the result of creating a MediaError
+    //    with MEDIA_ERR_NETWORK or MEDIA_ERR_DECODE.
+    this.#error = error;
+    // 3. Set the element's networkState attribute to the NETWORK_IDLE value.
+    this.#networkState = MediaNetworkState.NETWORK_IDLE;
+    // 5. Fire an event named error at the media element.
+    queueTask(() => this.dispatchEvent(new Event("error")));
+    // Playback has now stopped due to errors.
+    this.#updateCurrentTime(currentPlaybackPosition);
+    this.#updatePlaying();
+    this.#updatePlayed();
+  }
+
+  #addTrack(track: BabyMediaTrack): void {
+    if (track instanceof BabyAudioTrack) {
+      addTrackToList(this.#audioTracks, track);
+    } else if (track instanceof BabyVideoTrack) {
+      addTrackToList(this.#videoTracks, track);
+    }
+  }
+
+  #removeTrack(track: BabyMediaTrack): void {
+    if (track instanceof BabyAudioTrack) {
+      removeTrackFromList(this.#audioTracks, track);
+    } else if (track instanceof BabyVideoTrack) {
+      removeTrackFromList(this.#videoTracks, track);
+    }
+  }
+
+  #addEventMessages(events: EventMessage[]): void {
+    // https://dev.w3.org/html5/html-sourcing-inband-tracks/#mpegdash
+    // Each event scheme gets its own metadata track.
+    for (const event of events) {
+      const dispatchType = `${event.schemeIdUri} ${event.value}`;
+      let track = [...this.#textTracks].find(
+        (track) =>
+          track.kind === "metadata" &&
+          track.inBandMetadataTrackDispatchType === dispatchType
+      );
+      if (track === undefined) {
+        track = new BabyTextTrack({
+          id: "",
+          kind: "metadata",
+          label: "",
+          language: "",
+          inBandMetadataTrackDispatchType: dispatchType
+        });
+        addTextTrackToList(this.#textTracks, track);
+      }
+      // An event message may be repeated in every media segment that it applies to.
+      // Messages with the same scheme and id are the same event.
+      const id = `${event.id}`;
+      if (getTrackCues(track).some((cue) => cue.id === id)) {
+        continue;
+      }
+      const cue = new BabyDataCue<EventMessageCueValue>(
+        event.presentationTime,
+        event.presentationTime + event.duration,
+        {
+          schemeIdUri: event.schemeIdUri,
+          value: event.value,
+          id: event.id,
+          messageData: event.messageData
+        },
+        event.schemeIdUri
+      );
+      cue.id = id;
+      track.addCue(cue);
+    }
+    // The new cues may already be active.
+    this.#timeMarchesOn(false, performance.now());
+  }
+
+  #notifyEncrypted(initDataType: string, initData: Uint8Array | null): void {
+    // https://w3c.github.io/encrypted-media/#initdata-encountered
+    // 5. Queue a task to create an event named encrypted that does not bubble
+    //    and is not cancellable using the MediaEncryptedEvent interface,
+    //    and dispatch it at the media element.
+    const initDataBuffer = initData?.slice().buffer ?? null;
+    queueTask(() =>
+      this.dispatchEvent(
+        new BabyMediaEncryptedEvent("encrypted", {
+          initDataType,
+          initData: initDataBuffer
+        })
+      )
+    );
+  }
+
+  async #getDecryptionKey(
+    keyId: Uint8Array,
+    signal: AbortSignal
+  ): Promise<Uint8Array> {
+    while (true) {
+      const key =
+        this.#mediaKeys !== null
+          ? findDecryptionKey(this.#mediaKeys, keyId)
+          : undefined;
+      if (key !== undefined) {
+        return key;
+      }
+      // https://w3c.github.io/encrypted-media/#wait-for-key
+      // 3. If the media element's waiting for key value is false,
+      //    queue a task to fire an event named waitingforkey at the media element.
+      if (!this.#waitingForKey) {
+        this.#waitingForKey = true;
+        queueTask(() => this.dispatchEvent(new Event("waitingforkey")));
+      }
+      // Try again once new keys are available.
+      // A lookup that is aborted (e.g. when the decoder is reset) stops waiting.
+      const deferred = new Deferred<void>();
+      deferred.follow(signal);
+      this.#pendingKeyPromises.push(deferred);
+      try {
+        await deferred.promise;
+      } finally {
+        arrayRemove(this.#pendingKeyPromises, deferred);
+      }
+    }
+  }
+
+  #decryptionError(error: unknown): void {
+    // https://w3c.github.io/encrypted-media/#media-element-restrictions
+    // If decryption fails, the media element must run the media data is corrupted steps
+    // with a MEDIA_ERR_DECODE error.
+    this.#mediaDataError(
+      new BabyMediaError(
+        BabyMediaError.MEDIA_ERR_DECODE,
+        `Failed to decrypt a coded frame: ${error}`
+      )
+    );
+  }
+
+  #attemptToResumePlayback(): void {
+    // https://w3c.github.io/encrypted-media/#resume-playback
+    // Let the pending key lookups try again with the new keys.
+    this.#waitingForKey = false;
+    const pendingKeyPromises = this.#pendingKeyPromises.slice();
+    this.#pendingKeyPromises.length = 0;
+    for (const deferred of pendingKeyPromises) {
+      deferred.resolve();
+    }
+  }
+
+  #notifyActiveTracksChanged(): void {
+    // The decoders may hold frames from a track buffer that is no longer active.
+    // Restart decoding at the current position with the new active track buffers.
+    this.#resetVideoDecoder();
+    this.#resetAudioDecoder();
+    this.#updateCurrentTime(this.currentTime);
   }
 }
 
 customElements.define("baby-video", BabyVideoElement);
 
+function getNearestPosition(
+  ranges: TimeRanges,
+  position: number,
+  currentPosition: number
+): number {
+  let nearestPosition = ranges.start(0);
+  for (let i = 0; i < ranges.length; i++) {
+    const candidate = Math.min(
+      Math.max(ranges.start(i), position),
+      ranges.end(i)
+    );
+    const distance = Math.abs(candidate - position);
+    const nearestDistance = Math.abs(nearestPosition - position);
+    // If two positions are equally near, use the one closest to the current playback position.
+    if (
+      distance < nearestDistance ||
+      (distance === nearestDistance &&
+        Math.abs(candidate - currentPosition) <
+          Math.abs(nearestPosition - currentPosition))
+    ) {
+      nearestPosition = candidate;
+    }
+  }
+  return nearestPosition;
+}
+
 function isFrameBeyondTime(
   frame: EncodedChunk | AudioData | VideoFrame,
   direction: Direction,
@@ -1452,20 +1980,32 @@ function cloneEncodedAudioChunk(
   });
 }
 
-function cloneAudioData(original: AudioData, timestamp: number): AudioData {
+function cloneAudioData(
+  original: AudioData,
+  timestamp: number,
+  presentationInterval?: TimeRange
+): AudioData | undefined {
   const format = "f32-planar";
-  let totalSize = 0;
-  for (
-    let channelIndex = 0;
-    channelIndex < original.numberOfChannels;
-    channelIndex++
-  ) {
-    totalSize +=
-      original.allocationSize({ format, planeIndex: channelIndex }) /
-      Float32Array.BYTES_PER_ELEMENT;
+  let frameOffset = 0;
+  let frameCount = original.numberOfFrames;
+  if (presentationInterval !== undefined) {
+    // Convert the presentation interval to a range of audio frames.
+    const [start, end] = presentationInterval;
+    frameOffset = Math.min(
+      original.numberOfFrames,
+      Math.max(0, Math.round(((start - timestamp) * original.sampleRate) / 1e6))
+    );
+    frameCount = Math.min(
+      original.numberOfFrames - frameOffset,
+      Math.round(((end - start) * original.sampleRate) / 1e6)
+    );
+    // AudioData cannot be empty.
+    if (frameCount <= 0) {
+      return undefined;
+    }
+    timestamp += Math.round((1e6 * frameOffset) / original.sampleRate);
   }
-  const buffer = new Float32Array(totalSize);
-  let offset = 0;
+  const buffer = new Float32Array(original.numberOfChannels * frameCount);
   for (
     let channelIndex = 0;
     channelIndex < original.numberOfChannels;
@@ -1473,18 +2013,18 @@ function cloneAudioData(original: AudioData, timestamp: number): AudioData {
   ) {
     const options: AudioDataCopyToOptions = {
       format,
-      planeIndex: channelIndex
+      planeIndex: channelIndex,
+      frameOffset,
+      frameCount
     };
-    const channelSize =
-      original.allocationSize(options) / Float32Array.BYTES_PER_ELEMENT;
-    original.copyTo(buffer.subarray(offset, offset + totalSize), options);
-    offset += channelSize;
+    const offset = channelIndex * frameCount;
+    original.copyTo(buffer.subarray(offset, offset + frameCount), options);
   }
   return new AudioData({
     data: buffer,
     format,
     numberOfChannels: original.numberOfChannels,
-    numberOfFrames: original.numberOfFrames,
+    numberOfFrames: frameCount,
     sampleRate: original.sampleRate,
     timestamp: timestamp
   });
@@ -0,0 +1,744 @@
+import {
+  AudioTrackDescription,
+  ByteStreamParser,
+  CodedFrame,
+  InitializationSegment,
+  ParseResult,
+  VideoTrackDescription
+} from "./byte-stream-format";
+import { CodedFrameData } from "./track-buffer";
+import { InputBuffer } from "./input-buffer";
+
+// https://www.matroska.org/technical/elements.html
+const enum ElementId {
+  EBML = 0x1a45dfa3,
+  Segment = 0x18538067,
+  Info = 0x1549a966,
+  TimestampScale = 0x2ad7b1,
+  Duration = 0x4489,
+  Tracks = 0x1654ae6b,
+  TrackEntry = 0xae,
+  TrackNumber = 0xd7,
+  TrackType = 0x83,
+  CodecID = 0x86,
+  CodecPrivate = 0x63a2,
+  CodecDelay = 0x56aa,
+  DefaultDuration = 0x23e383,
+  Name = 0x536e,
+  Language = 0x22b59c,
+  LanguageBCP47 = 0x22b59d,
+  Video = 0xe0,
+  PixelWidth = 0xb0,
+  PixelHeight = 0xba,
+  Audio = 0xe1,
+  SamplingFrequency = 0xb5,
+  Channels = 0x9f,
+  Cluster = 0x1f43b675,
+  Timestamp = 0xe7,
+  SimpleBlock = 0xa3,
+  BlockGroup = 0xa0,
+  Block = 0xa1,
+  BlockDuration = 0x9b,
+  ReferenceBlock = 0xfb
+}
+
+// The elements that can appear inside a Cluster.
+// A Cluster with an unknown size ends at the first element that is not one of these.
+const CLUSTER_CHILD_IDS: ReadonlySet<number> = new Set([
+  ElementId.Timestamp,
+  ElementId.SimpleBlock,
+  ElementId.BlockGroup,
+  0xa7, // Position
+  0xab, // PrevSize
+  0xec, // Void
+  0xbf // CRC-32
+]);
+
+// An element ID has at most 4 bytes, and an element data size at most 8 bytes.
+const MAX_ELEMENT_HEADER_SIZE = 12;
+
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+
+class WebmParseError extends Error {}
+
+interface ElementHeader {
+  id: number;
+  // The size of the element's data, or undefined if the size is unknown.
+  size: number | undefined;
+  headerSize: number;
+}
+
+interface WebmTrack {
+  description: AudioTrackDescription | VideoTrackDescription;
+  // The duration (in seconds) of each frame, if known.
+  defaultDuration: number | undefined;
+  // The delay (in seconds) that the decoder adds to the start of the track,
+  // which must be subtracted from the block timestamps.
+  codecDelay: number;
+}
+
+interface WebmCluster {
+  // The number of bytes left in this cluster, or undefined if the size is unknown.
+  remaining: number | undefined;
+  // The timestamp (in seconds) of this cluster.
+  timestamp: number;
+}
+
+// A block whose duration is not yet known.
+interface PendingBlock {
+  trackId: number;
+  timestamp: number;
+  frames: CodedFrameData[];
+}
+
+// https://www.w3.org/TR/mse-byte-stream-format-webm/
+export class WebmParser implements ByteStreamParser {
+  readonly generateTimestamps: boolean = false;
+  // The number of seconds per timestamp tick.
+  #timestampScale: number = 1e-3;
+  #duration: number = NaN;
+  #tracks: Map<number, WebmTrack> = new Map();
+  #cluster: WebmCluster | undefined = undefined;
+  // The last block of each track, which is only emitted once the next block
+  // (or the end of the cluster) tells us its duration.
+  #pendingBlocks: Map<number, PendingBlock> = new Map();
+  #lastFrameDurations: Map<number, number> = new Map();
+
+  parse(input: InputBuffer): ParseResult {
+    try {
+      return this.#parse(input);
+    } catch (e) {
+      if (e instanceof WebmParseError) {
+        return { type: "error" };
+      }
+      throw e;
+    }
+  }
+
+  flush(): CodedFrame[] {
+    return this.#takePendingBlocks();
+  }
+
+  reset(): void {
+    this.#cluster = undefined;
+    this.#pendingBlocks.clear();
+  }
+
+  #parse(input: InputBuffer): ParseResult {
+    if (this.#cluster?.remaining === 0) {
+      return this.#endCluster();
+    }
+    const header = readElementHeader(input.peek(MAX_ELEMENT_HEADER_SIZE), 0);
+    if (header === undefined) {
+      return { type: "needMoreData" };
+    }
+    if (this.#cluster !== undefined && !CLUSTER_CHILD_IDS.has(header.id)) {
+      if (this.#cluster.remaining !== undefined) {
+        throw new WebmParseError("Unexpected element inside cluster");
+      }
+      return this.#endCluster();
+    }
+    if (header.id === ElementId.Segment) {
+      // Only consume the header, the children are parsed one by one.
+      return { type: "skip", byteLength: header.headerSize };
+    }
+    if (header.id === ElementId.Cluster) {
+      this.#cluster = { remaining: header.size, timestamp: 0 };
+      return { type: "mediaSegmentStart", byteLength: header.headerSize };
+    }
+    // All other elements are parsed as a whole.
+    if (header.size === undefined) {
+      throw new WebmParseError("Unexpected element with unknown size");
+    }
+    const byteLength = header.headerSize + header.size;
+    if (this.#cluster?.remaining !== undefined) {
+      if (byteLength > this.#cluster.remaining) {
+        throw new WebmParseError("Element exceeds cluster size");
+      }
+    }
+    if (input.byteLength < byteLength) {
+      return { type: "needMoreData" };
+    }
+    const data = input.peek(byteLength).subarray(header.headerSize);
+    if (this.#cluster !== undefined) {
+      if (this.#cluster.remaining !== undefined) {
+        this.#cluster.remaining -= byteLength;
+      }
+      const frames = this.#parseClusterChild(header.id, data);
+      return frames.length > 0
+        ? { type: "codedFrames", byteLength, frames }
+        : { type: "skip", byteLength };
+    }
+    switch (header.id) {
+      case ElementId.EBML:
+        return { type: "initializationSegmentStart", byteLength };
+      case ElementId.Info:
+        this.#parseInfo(data);
+        return { type: "skip", byteLength };
+      case ElementId.Tracks: {
+        const segment = this.#parseTracks(data);
+        return { type: "initializationSegment", byteLength, segment };
+      }
+      default:
+        // SeekHead, Cues, Tags, Void...
+        return { type: "skip", byteLength };
+    }
+  }
+
+  #parseInfo(data: Uint8Array): void {
+    let duration: number | undefined = undefined;
+    this.#timestampScale = 1e-3;
+    for (const [id, value] of readChildren(data)) {
+      if (id === ElementId.TimestampScale) {
+        // The scale is stored in nanoseconds.
+        this.#timestampScale = readUint(value) / 1e9;
+      } else if (id === ElementId.Duration) {
+        duration = readFloat(value);
+      }
+    }
+    this.#duration =
+      duration === undefined ? NaN : duration * this.#timestampScale;
+  }
+
+  #parseTracks(data: Uint8Array): InitializationSegment {
+    this.#tracks.clear();
+    const audioTracks: AudioTrackDescription[] = [];
+    const videoTracks: VideoTrackDescription[] = [];
+    for (const [id, value] of readChildren(data)) {
+      if (id !== ElementId.TrackEntry) {
+        continue;
+      }
+      const track = parseTrackEntry(value);
+      if (track === undefined) {
+        continue;
+      }
+      this.#tracks.set(track.description.id, track);
+      if (track.description.type === "audio") {
+        audioTracks.push(track.description);
+      } else {
+        videoTracks.push(track.description);
+      }
+    }
+    return { duration: this.#duration, audioTracks, videoTracks };
+  }
+
+  #parseClusterChild(id: number, data: Uint8Array): CodedFrame[] {
+    switch (id) {
+      case ElementId.Timestamp:
+        this.#cluster!.timestamp = readUint(data) * this.#timestampScale;
+        return [];
+      case ElementId.SimpleBlock:
+        return this.#parseBlock(data, undefined, undefined);
+      case ElementId.BlockGroup: {
+        let block: Uint8Array | undefined = undefined;
+        let blockDuration: number | undefined = undefined;
+        let isKeyframe = true;
+        for (const [childId, value] of readChildren(data)) {
+          if (childId === ElementId.Block) {
+            block = value;
+          } else if (childId === ElementId.BlockDuration) {
+            blockDuration = readUint(value) * this.#timestampScale;
+          } else if (childId === ElementId.ReferenceBlock) {
+            // A block that references other blocks is not a keyframe.
+            isKeyframe = false;
+          }
+        }
+        if (block === undefined) {
+          throw new WebmParseError("Missing block in block group");
+        }
+        return this.#parseBlock(block, isKeyframe, blockDuration);
+      }
+      default:
+        return [];
+    }
+  }
+
+  #parseBlock(
+    data: Uint8Array,
+    isKeyframe: boolean | undefined,
+    blockDuration: number | undefined
+  ): CodedFrame[] {
+    // https://www.matroska.org/technical/notes.html#block-structure
+    const trackNumber = readVint(data, 0, false);
+    if (trackNumber === undefined || data.byteLength < trackNumber.length + 3) {
+      throw new WebmParseError("Invalid block header");
+    }
+    const track = this.#tracks.get(trackNumber.value);
+    if (track === undefined) {
+      // Ignore blocks for tracks that are not supported, such as subtitles.
+      return [];
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const relativeTimestamp = view.getInt16(trackNumber.length);
+    const flags = view.getUint8(trackNumber.length + 2);
+    // For a SimpleBlock, the keyframe flag is stored in the block header.
+    const is_sync = isKeyframe ?? (flags & 0x80) !== 0;
+    // https://www.matroska.org/technical/notes.html#codecdelay
+    const timestamp =
+      this.#cluster!.timestamp +
+      relativeTimestamp * this.#timestampScale -
+      track.codecDelay;
+    const frames = readLacedFrames(
+      data.subarray(trackNumber.length + 3),
+      (flags >> 1) & 0x3
+    ).map((frameData) => ({ data: frameData, is_sync }));
+    const trackId = track.description.id;
+    const block: PendingBlock = { trackId, timestamp, frames };
+    // The previous block of this track ends where this block starts.
+    const result: CodedFrame[] = [];
+    const pendingBlock = this.#pendingBlocks.get(trackId);
+    if (pendingBlock !== undefined) {
+      this.#pendingBlocks.delete(trackId);
+      result.push(
+        ...this.#emitBlock(pendingBlock, timestamp - pendingBlock.timestamp)
+      );
+    }
+    const duration =
+      blockDuration ??
+      (track.defaultDuration !== undefined
+        ? track.defaultDuration * frames.length
+        : undefined);
+    if (duration !== undefined) {
+      result.push(...this.#emitBlock(block, duration));
+    } else {
+      this.#pendingBlocks.set(trackId, block);
+    }
+    return result;
+  }
+
+  #emitBlock(block: PendingBlock, duration: number): CodedFrame[] {
+    // Laced frames share the duration of their block equally.
+    const frameDuration = duration / block.frames.length;
+    this.#lastFrameDurations.set(block.trackId, frameDuration);
+    return block.frames.map((frame, index) => {
+      const timestamp = block.timestamp + index * frameDuration;
+      return {
+        ...frame,
+        trackId: block.trackId,
+        // WebM does not store decode timestamps.
+        presentationTimestamp: timestamp,
+        decodeTimestamp: timestamp,
+        duration: frameDuration
+      };
+    });
+  }
+
+  #endCluster(): ParseResult {
+    const frames = this.#takePendingBlocks();
+    if (frames.length > 0) {
+      return { type: "codedFrames", byteLength: 0, frames };
+    }
+    this.#cluster = undefined;
+    return { type: "mediaSegmentEnd", byteLength: 0 };
+  }
+
+  #takePendingBlocks(): CodedFrame[] {
+    // Emit the last block of each track, assuming that its frames
+    // are as long as the previous frames of the same track.
+    const frames: CodedFrame[] = [];
+    for (const block of this.#pendingBlocks.values()) {
+      const track = this.#tracks.get(block.trackId)!;
+      const frameDuration =
+        track.defaultDuration ??
+        this.#lastFrameDurations.get(block.trackId) ??
+        0;
+      frames.push(
+        ...this.#emitBlock(block, frameDuration * block.frames.length)
+      );
+    }
+    this.#pendingBlocks.clear();
+    return frames;
+  }
+}
+
+function parseTrackEntry(data: Uint8Array): WebmTrack | undefined {
+  let trackNumber: number | undefined = undefined;
+  let trackType: number | undefined = undefined;
+  let codecId = "";
+  let codecPrivate: Uint8Array | undefined = undefined;
+  let codecDelay = 0;
+  let defaultDuration: number | undefined = undefined;
+  let name = "";
+  let language = "eng";
+  let languageBCP47: string | undefined = undefined;
+  let width = 0;
+  let height = 0;
+  let sampleRate = 8000;
+  let numberOfChannels = 1;
+  for (const [id, value] of readChildren(data)) {
+    switch (id) {
+      case ElementId.TrackNumber:
+        trackNumber = readUint(value);
+        break;
+      case ElementId.TrackType:
+        trackType = readUint(value);
+        break;
+      case ElementId.CodecID:
+        codecId = readString(value);
+        break;
+      case ElementId.CodecPrivate:
+        codecPrivate = value.slice();
+        break;
+      case ElementId.CodecDelay:
+        // The delay is stored in nanoseconds.
+        codecDelay = readUint(value) / 1e9;
+        break;
+      case ElementId.DefaultDuration:
+        // The duration is stored in nanoseconds.
+        defaultDuration = readUint(value) / 1e9;
+        break;
+      case ElementId.Name:
+        name = readString(value);
+        break;
+      case ElementId.Language:
+        language = readString(value);
+        break;
+      case ElementId.LanguageBCP47:
+        languageBCP47 = readString(value);
+        break;
+      case ElementId.Video:
+        for (const [childId, childValue] of readChildren(value)) {
+          if (childId === ElementId.PixelWidth) {
+            width = readUint(childValue);
+          } else if (childId === ElementId.PixelHeight) {
+            height = readUint(childValue);
+          }
+        }
+        break;
+      case ElementId.Audio:
+        for (const [childId, childValue] of readChildren(value)) {
+          if (childId === ElementId.SamplingFrequency) {
+            sampleRate = readFloat(childValue);
+          } else if (childId === ElementId.Channels) {
+            numberOfChannels = readUint(childValue);
+          }
+        }
+        break;
+    }
+  }
+  if (trackNumber === undefined) {
+    throw new WebmParseError("Missing track number");
+  }
+  // https://dev.w3.org/html5/html-sourcing-inband-tracks/#webm
+  // The label comes from the Name element, and the language from the Language element.
+  // If the language is "und", use an empty string instead.
+  language = languageBCP47 ?? language;
+  const trackInit = {
+    id: trackNumber,
+    kind: "",
+    label: name,
+    language: language === "und" ? "" : language
+  };
+  if (trackType === TRACK_TYPE_VIDEO) {
+    return {
+      description: {
+        type: "video",
+        ...trackInit,
+        codecConfig: {
+          ...getVideoCodec(codecId, codecPrivate),
+          codedWidth: width,
+          codedHeight: height
+        }
+      },
+      defaultDuration,
+      codecDelay
+    };
+  } else if (trackType === TRACK_TYPE_AUDIO) {
+    return {
+      description: {
+        type: "audio",
+        ...trackInit,
+        codecConfig: {
+          ...getAudioCodec(codecId, codecPrivate),
+          sampleRate,
+          numberOfChannels
+        },
+        // The priming samples end at timestamp 0, once the codec delay is subtracted.
+        primingEnd: 0
+      },
+      defaultDuration,
+      codecDelay
+    };
+  }
+  // Other tracks (such as subtitles) are not supported.
+  return undefined;
+}
+
+function getVideoCodec(
+  codecId: string,
+  codecPrivate: Uint8Array | undefined
+): Pick<VideoDecoderConfig, "codec" | "description"> {
+  // https://www.matroska.org/technical/codec_specs.html
+  switch (codecId) {
+    case "V_VP8":
+      return { codec: "vp8" };
+    case "V_VP9":
+      return { codec: getVp9CodecString(codecPrivate) };
+    case "V_AV1":
+      // https://github.com/ietf-wg-cellar/matroska-specification/blob/master/codec/av1.md
+      // The CodecPrivate is an AV1CodecConfigurationRecord, just like in MP4.
+      if (codecPrivate === undefined || codecPrivate.byteLength < 4) {
+        break;
+      }
+      return {
+        codec: getAv1CodecString(codecPrivate),
+        description: codecPrivate
+      };
+  }
+  throw new WebmParseError(`Unsupported video codec: ${codecId}`);
+}
+
+function getAudioCodec(
+  codecId: string,
+  codecPrivate: Uint8Array | undefined
+): Pick<AudioDecoderConfig, "codec" | "description"> {
+  // https://www.matroska.org/technical/codec_specs.html
+  switch (codecId) {
+    case "A_OPUS":
+      // https://www.w3.org/TR/webcodecs-opus-codec-registration/#audiodecoderconfig-description
+      // The CodecPrivate is the Opus identification header.
+      return { codec: "opus", description: codecPrivate };
+    case "A_VORBIS":
+      // https://www.w3.org/TR/webcodecs-vorbis-codec-registration/#audiodecoderconfig-description
+      // The CodecPrivate contains the three Vorbis headers in Xiph lacing.
+      return { codec: "vorbis", description: codecPrivate };
+    case "A_FLAC":
+      // https://www.w3.org/TR/webcodecs-flac-codec-registration/#audiodecoderconfig-description
+      // The CodecPrivate is the "fLaC" marker followed by the metadata blocks.
+      return { codec: "flac", description: codecPrivate };
+    case "A_AAC":
+      // The CodecPrivate is the AudioSpecificConfig.
+      if (codecPrivate === undefined || codecPrivate.byteLength < 1) {
+        break;
+      }
+      return {
+        codec: `mp4a.40.${codecPrivate[0] >> 3}`,
+        description: codecPrivate
+      };
+  }
+  throw new WebmParseError(`Unsupported audio codec: ${codecId}`);
+}
+
+function getVp9CodecString(codecPrivate: Uint8Array | undefined): string {
+  // https://www.webmproject.org/docs/container/#vp9-codec-feature-metadata-codecprivate
+  // The CodecPrivate optionally contains the profile, level and bit depth.
+  // Fall back to profile 0, level 1 and 8 bits.
+  let profile = 0;
+  let level = 10;
+  let bitDepth = 8;
+  let offset = 0;
+  while (codecPrivate !== undefined && offset + 2 < codecPrivate.byteLength) {
+    const id = codecPrivate[offset];
+    const length = codecPrivate[offset + 1];
+    const value = codecPrivate[offset + 2];
+    if (id === 1) {
+      profile = value;
+    } else if (id === 2) {
+      level = value;
+    } else if (id === 3) {
+      bitDepth = value;
+    }
+    offset += 2 + length;
+  }
+  return ["vp09", profile, level, bitDepth]
+    .map((field) => `${field}`.padStart(2, "0"))
+    .join(".");
+}
+
+function getAv1CodecString(av1C: Uint8Array): string {
+  // https://aomediacodec.github.io/av1-isobmff/#av1codecconfigurationbox-syntax
+  // https://aomediacodec.github.io/av1-isobmff/#codecsparam
+  const seqProfile = av1C[1] >> 5;
+  const seqLevelIdx0 = av1C[1] & 0x1f;
+  const tier = av1C[2] & 0x80 ? "H" : "M";
+  const highBitdepth = (av1C[2] >> 6) & 1;
+  const twelveBit = (av1C[2] >> 5) & 1;
+  const monochrome = (av1C[2] >> 4) & 1;
+  const chromaSubsampling = (av1C[2] >> 2) & 0x3;
+  const chromaSamplePosition = av1C[2] & 0x3;
+  let bitDepth = 8;
+  if (highBitdepth) {
+    bitDepth = seqProfile === 2 && twelveBit ? 12 : 10;
+  }
+  return [
+    "av01",
+    seqProfile,
+    `${seqLevelIdx0}`.padStart(2, "0") + tier,
+    `${bitDepth}`.padStart(2, "0"),
+    monochrome,
+    `${chromaSubsampling.toString(2).padStart(2, "0")}${chromaSamplePosition}`
+  ].join(".");
+}
+
+function readLacedFrames(data: Uint8Array, lacing: number): Uint8Array[] {
+  // https://www.matroska.org/technical/notes.html#block-lacing
+  if (lacing === 0) {
+    return [data.slice()];
+  }
+  if (data.byteLength < 1) {
+    throw new WebmParseError("Invalid lacing");
+  }
+  const frameCount = data[0] + 1;
+  let offset = 1;
+  const frameSizes: number[] = [];
+  if (lacing === 1) {
+    // Xiph lacing: each size is a sum of bytes, ending with a byte that is not 255.
+    for (let i = 0; i < frameCount - 1; i++) {
+      let frameSize = 0;
+      let byte: number;
+      do {
+        if (offset >= data.byteLength) {
+          throw new WebmParseError("Invalid Xiph lacing");
+        }
+        byte = data[offset++];
+        frameSize += byte;
+      } while (byte === 255);
+      frameSizes.push(frameSize);
+    }
+  } else if (lacing === 3) {
+    // EBML lacing: the first size is an unsigned integer,
+    // the other sizes are stored as signed differences from the previous size.
+    let frameSize = 0;
+    for (let i = 0; i < frameCount - 1; i++) {
+      const vint = readVint(data, offset, false);
+      if (vint === undefined) {
+        throw new WebmParseError("Invalid EBML lacing");
+      }
+      offset += vint.length;
+      frameSize =
+        i === 0
+          ? vint.value
+          : frameSize + vint.value - (2 ** (7 * vint.length - 1) - 1);
+      frameSizes.push(frameSize);
+    }
+  } else {
+    // Fixed-size lacing: all frames have the same size.
+    const frameSize = (data.byteLength - offset) / frameCount;
+    if (!Number.isInteger(frameSize)) {
+      throw new WebmParseError("Invalid fixed-size lacing");
+    }
+    frameSizes.push(...new Array<number>(frameCount - 1).fill(frameSize));
+  }
+  // The size of the last frame is whatever remains.
+  const totalSize = frameSizes.reduce((total, size) => total + size, 0);
+  const lastFrameSize = data.byteLength - offset - totalSize;
+  if (lastFrameSize < 0) {
+    throw new WebmParseError("Laced frames exceed block size");
+  }
+  frameSizes.push(lastFrameSize);
+  const frames: Uint8Array[] = [];
+  for (const frameSize of frameSizes) {
+    frames.push(data.slice(offset, offset + frameSize));
+    offset += frameSize;
+  }
+  return frames;
+}
+
+interface Vint {
+  value: number;
+  length: number;
+  // Whether all value bits are set, which means "unknown" for element sizes.
+  allOnes: boolean;
+}
+
+function readVint(
+  data: Uint8Array,
+  offset: number,
+  keepMarker: boolean
+): Vint | undefined {
+  // https://www.rfc-editor.org/rfc/rfc8794#section-4
+  if (offset >= data.byteLength) {
+    return undefined;
+  }
+  const firstByte = data[offset];
+  if (firstByte === 0) {
+    throw new WebmParseError("Invalid variable-size integer");
+  }
+  // The number of leading zero bits determines the length.
+  const length = Math.clz32(firstByte) - 23;
+  if (offset + length > data.byteLength) {
+    return undefined;
+  }
+  const mask = 0xff >> length;
+  let value = keepMarker ? firstByte : firstByte & mask;
+  let allOnes = (firstByte & mask) === mask;
+  for (let i = 1; i < length; i++) {
+    const byte = data[offset + i];
+    value = value * 256 + byte;
+    allOnes &&= byte === 0xff;
+  }
+  return { value, length, allOnes };
+}
+
+function readElementHeader(
+  data: Uint8Array,
+  offset: number
+): ElementHeader | undefined {
+  // https://www.rfc-editor.org/rfc/rfc8794#section-6
+  const id = readVint(data, offset, true);
+  if (id === undefined) {
+    return undefined;
+  }
+  if (id.length > 4) {
+    throw new WebmParseError("Invalid element ID");
+  }
+  const size = readVint(data, offset + id.length, false);
+  if (size === undefined) {
+    return undefined;
+  }
+  return {
+    id: id.value,
+    size: size.allOnes ? undefined : size.value,
+    headerSize: id.length + size.length
+  };
+}
+
+function readChildren(data: Uint8Array): Array<[number, Uint8Array]> {
+  const children: Array<[number, Uint8Array]> = [];
+  let offset = 0;
+  while (offset < data.byteLength) {
+    const header = readElementHeader(data, offset);
+    if (header === undefined || header.size === undefined) {
+      throw new WebmParseError("Invalid child element");
+    }
+    const start = offset + header.headerSize;
+    const end = start + header.size;
+    if (end > data.byteLength) {
+      throw new WebmParseError("Child element exceeds parent size");
+    }
+    children.push([header.id, data.subarray(start, end)]);
+    offset = end;
+  }
+  return children;
+}
+
+function readUint(data: Uint8Array): number {
+  if (data.byteLength > 8) {
+    throw new WebmParseError("Invalid unsigned integer");
+  }
+  let value = 0;
+  for (const byte of data) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+function readFloat(data: Uint8Array): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  switch (data.byteLength) {
+    case 0:
+      return 0;
+    case 4:
+      return view.getFloat32(0);
+    case 8:
+      return view.getFloat64(0);
+    default:
+      throw new WebmParseError("Invalid float");
+  }
+}
+
+function readString(data: Uint8Array): string {
+  // Strings may be padded with zero bytes.
+  return new TextDecoder().decode(data).replace(/\0+$/, "");
+}
@@ -0,0 +1,21 @@
+// The entry point for dedicated workers.
+// Unlike the main entry point, this does not define the <baby-video> custom element,
+// so it can be imported where there is no document.
+export { BabyMediaSource } from "./media-source";
+export { BabySourceBuffer } from "./source-buffer";
+export { BabySourceBufferList } from "./source-buffer-list";
+export { SegmentIndex } from "./segment-index";
+export { BabyMediaError } from "./media-error";
+export { BabyMediaSourceHandle } from "./media-source-handle";
+export { BabyManagedMediaSource } from "./managed-media-source";
+export {
+  BabyBufferedChangeEvent,
+  BabyManagedSourceBuffer
+} from "./managed-source-buffer";
+export {
+  BabyAudioTrack,
+  BabyAudioTrackList,
+  BabyTrackEvent,
+  BabyVideoTrack,
+  BabyVideoTrackList
+} from "./track-list";
@@ -1,3 +1,4 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vite";
 
 export default defineConfig({
@@ -5,6 +6,17 @@ export default defineConfig({
   build: {
     target: "es2022",
     minify: false,
-    sourcemap: true
+    sourcemap: true,
+    rollupOptions: {
+      input: {
+        main: fileURLToPath(new URL("./index.html", import.meta.url)),
+        bench: fileURLToPath(new URL("./bench.html", import.meta.url)),
+        worker: fileURLToPath(new URL("./worker.html", import.meta.url))
+      }
+    }
+  },
+  worker: {
+    // The worker of the demo uses top-level await.
+    format: "es"
   }
 });